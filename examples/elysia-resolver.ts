@@ -1,6 +1,6 @@
 import { Elysia } from 'elysia'
-import { resolveDID, AbstractCrypto } from 'didwebvh-ts';
-import type { DIDDoc, SigningInput, SigningOutput, Verifier } from 'didwebvh-ts/types';
+import { dereferenceDIDURL, resolveDID, AbstractCrypto, Keystore } from 'didwebvh-ts';
+import type { SigningInput, SigningOutput, Verifier } from 'didwebvh-ts/types';
 
 import { verify as ed25519Verify } from '@stablelib/ed25519';
 
@@ -43,6 +43,9 @@ const elysiaVerifier = createElysiaVerifier();
 
 const WELL_KNOWN_ALLOW_LIST = ['did.jsonl'];
 
+// The DIDs with keys in this server's keystore are served from ./src/routes
+const controlledDIDs = await new Keystore().getActiveDIDs();
+
 // Helper function to map DID resolution errors to HTTP status codes
 const getStatusCodeFromError = (errorType?: string): number => {
   switch (errorType) {
@@ -67,59 +70,13 @@ const getStatusCodeFromError = (errorType?: string): number => {
   }
 };
 
+// Serves files for DIDs controlled by this server; remote DID URLs are dereferenced by the library
 const getFile = async ({
-  params: {path, file},
-  isRemote = false,
-  didDocument
+  params: {path, file}
 }: {
-  params: {path: string; file: string},
-  isRemote?: boolean,
-  didDocument?: DIDDoc
+  params: {path: string; file: string}
 }) => {
   try {
-    if (isRemote) {
-      let serviceEndpoint;
-      
-      if (file === 'whois') {
-        const whoisService = didDocument?.service?.find(
-          (s: any) => s.id === '#whois'
-        );
-        
-        if (whoisService?.serviceEndpoint) {
-          serviceEndpoint = whoisService.serviceEndpoint;
-        }
-      } else {
-        const filesService = didDocument?.service?.find(
-          (s: any) => s.id === '#files'
-        );
-        
-        if (filesService?.serviceEndpoint) {
-          serviceEndpoint = filesService.serviceEndpoint;
-        }
-      }
-
-      if (!serviceEndpoint) {
-        const cleanDomain = path.replace('.well-known/', '');
-        serviceEndpoint = `https://${cleanDomain}`;
-        
-        if (file === 'whois') {
-          serviceEndpoint = `${serviceEndpoint}/whois.vp`;
-        }
-      }
-      
-      serviceEndpoint = serviceEndpoint.replace(/\/$/, '');
-      const url = file === 'whois' ? serviceEndpoint : `${serviceEndpoint}/${file}`;
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Error 404: Not Found');
-        }
-        throw new Error(`Error ${response.status}: ${response.statusText}`);
-      }
-      return response.text();
-    }
-    
     if (file === 'whois') {
       file = 'whois.vp';
     }
@@ -153,7 +110,8 @@ const app = new Elysia()
           versionId: query?.versionId as string,
           versionTime: query?.versionTime ? new Date(query.versionTime as string) : undefined,
           verificationMethod: query?.verificationMethod as string,
-          verifier: elysiaVerifier
+          verifier: elysiaVerifier,
+          controlledDIDs
         };
         
         console.log(`Resolving DID ${didPart}`);
@@ -167,19 +125,23 @@ const app = new Elysia()
         return result;
       }
       
-      const {did, doc, controlled} = await resolveDID(didPart, { verifier: elysiaVerifier });
-      
-      const didParts = did.split(':');
-      const domain = didParts[didParts.length - 1];
+      if (!controlledDIDs.includes(didPart)) {
+        const { content, meta } = await dereferenceDIDURL(id, { verifier: elysiaVerifier });
+        if (meta.error) {
+          set.status = getStatusCodeFromError(meta.error);
+          return { error: meta.error, details: meta.problemDetails?.detail };
+        }
+        return content;
+      }
+
+      const didParts = didPart.split(':');
       const fileIdentifier = didParts[didParts.length - 2];
       
       const fileContent = await getFile({
         params: {
-          path: !controlled ? domain : fileIdentifier,
+          path: fileIdentifier,
           file: pathParts.join('/')
-        },
-        isRemote: !controlled,
-        didDocument: doc
+        }
       });
       
       return fileContent;
@@ -1,6 +1,6 @@
 import express from 'express';
-import { resolveDID } from 'didwebvh-ts';
-import type { DIDDoc, SigningInput, SigningOutput, Verifier } from 'didwebvh-ts/types';
+import { dereferenceDIDURL, resolveDID, Keystore } from 'didwebvh-ts';
+import type { SigningInput, SigningOutput, Verifier } from 'didwebvh-ts/types';
 
 import { verify } from '@stablelib/ed25519';
 
@@ -47,57 +47,40 @@ const port = process.env.PORT ? parseInt(process.env.PORT) : 8000;
 
 const WELL_KNOWN_ALLOW_LIST = ['did.jsonl'];
 
+// The DIDs with keys in this server's keystore are served from ./src/routes
+const controlledDIDs = await new Keystore().getActiveDIDs();
+
+// Helper function to map DID resolution errors to HTTP status codes
+const getStatusCodeFromError = (errorType?: string): number => {
+  switch (errorType) {
+    case 'INVALID_DID':
+    case 'INVALID_DID_URL':
+    case 'INVALID_OPTIONS':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    case 'REPRESENTATION_NOT_SUPPORTED':
+      return 406;
+    case 'METHOD_NOT_SUPPORTED':
+    case 'UNSUPPORTED_PUBLIC_KEY_TYPE':
+      return 501;
+    case 'INVALID_DID_DOCUMENT':
+    case 'INVALID_PUBLIC_KEY':
+    case 'INVALID_PUBLIC_KEY_LENGTH':
+    case 'INVALID_PUBLIC_KEY_TYPE':
+    case 'INTERNAL_ERROR':
+    default:
+      return 500;
+  }
+};
+
+// Serves files for DIDs controlled by this server; remote DID URLs are dereferenced by the library
 const getFile = async ({
-  params: {path, file}, 
-  isRemote = false,
-  didDocument
+  params: {path, file}
 }: {
-  params: {path: string; file: string}, 
-  isRemote?: boolean,
-  didDocument?: DIDDoc
+  params: {path: string; file: string}
 }) => {
   try {
-    if (isRemote) {
-      let serviceEndpoint;
-      
-      if (file === 'whois') {
-        const whoisService = didDocument?.service?.find(
-          (s: any) => s.id === '#whois'
-        );
-        
-        if (whoisService?.serviceEndpoint) {
-          serviceEndpoint = whoisService.serviceEndpoint;
-        }
-      } else {
-        const filesService = didDocument?.service?.find(
-          (s: any) => s.id === '#files'
-        );
-        
-        if (filesService?.serviceEndpoint) {
-          serviceEndpoint = filesService.serviceEndpoint;
-        }
-      }
-
-      if (!serviceEndpoint) {
-        const cleanDomain = path.replace('.well-known/', '');
-        serviceEndpoint = `https://${cleanDomain}`;
-        
-        if (file === 'whois') {
-          serviceEndpoint = `${serviceEndpoint}/whois.vp`;
-        }
-      }
-      serviceEndpoint = serviceEndpoint.replace(/\/$/, '');
-      const url = file === 'whois' ? serviceEndpoint : `${serviceEndpoint}/${file}`;
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Error 404: Not Found');
-        }
-        throw new Error(`Error ${response.status}: ${response.statusText}`);
-      }
-      return response.text();
-    }
     if (file === 'whois') {
       file = 'whois.vp';
     }
@@ -129,27 +112,34 @@ app.get('/resolve/:id', async (req, res) => {
         versionId: req.query.versionId as string,
         versionTime: req.query.versionTime ? new Date(req.query.versionTime as string) : undefined,
         verificationMethod: req.query.verificationMethod as string,
-        verifier: expressVerifier
+        verifier: expressVerifier,
+        controlledDIDs
       };
       
       console.log(`Resolving DID ${didPart} with HSM verifier`);
       const result = await resolveDID(didPart, options);
+      if (result.meta && result.meta.error) {
+        res.status(getStatusCodeFromError(result.meta.error));
+      }
       return res.json(result);
     }
     
-    const {did, doc, controlled} = await resolveDID(didPart, { verifier: expressVerifier });
-    
-    const didParts = did.split(':');
-    const domain = didParts[didParts.length - 1];
+    if (!controlledDIDs.includes(didPart)) {
+      const { content, meta } = await dereferenceDIDURL(id, { verifier: expressVerifier });
+      if (meta.error) {
+        return res.status(getStatusCodeFromError(meta.error)).json({ error: meta.error, details: meta.problemDetails?.detail });
+      }
+      return res.send(content);
+    }
+
+    const didParts = didPart.split(':');
     const fileIdentifier = didParts[didParts.length - 2];
     
     const fileContent = await getFile({
       params: {
-        path: !controlled ? domain : fileIdentifier,
+        path: fileIdentifier,
         file: pathParts.join('/')
-      },
-      isRemote: !controlled,
-      didDocument: doc
+      }
     });
     
     res.send(fileContent);
@@ -169,8 +159,7 @@ app.get('/resolve/:id/*', async (req, res) => {
       params: {
         path: pathParts.slice(0, -1).join('/'),
         file: pathParts[pathParts.length - 1]
-      },
-      isRemote: false
+      }
     });
     res.send(fileContent);
   } catch (error) {
@@ -188,8 +177,7 @@ app.get('/.well-known/*', async (req, res) => {
       params: {
         path: '.well-known',
         file
-      },
-      isRemote: false
+      }
     });
     res.send(fileContent);
   } catch (error) {
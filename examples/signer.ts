@@ -1,7 +1,9 @@
-import { AbstractCrypto, createDID, multibaseDecode, multibaseEncode, MultibaseEncoding, prepareDataForSigning } from 'didwebvh-ts';
+import { AbstractCrypto, createDID, generateEd25519VerificationMethod, multibaseDecode, multibaseEncode, MultibaseEncoding, prepareDataForSigning } from 'didwebvh-ts';
 import type { Signer, SigningInput, SigningOutput, VerificationMethod, Verifier } from 'didwebvh-ts/types';
-import { base58btc } from "multiformats/bases/base58";
-import { verify, sign, generateKeyPair } from '@stablelib/ed25519';
+import { verify, sign } from '@stablelib/ed25519';
+
+// For plain Ed25519 keys the library's Ed25519Signer and Ed25519Verifier can be used instead.
+// Extend AbstractCrypto like this to sign with keys held elsewhere, e.g. in an HSM.
 
 class ExampleCrypto extends AbstractCrypto implements Verifier, Signer {
   constructor(public readonly verificationMethod: {
@@ -44,16 +46,6 @@ class ExampleCrypto extends AbstractCrypto implements Verifier, Signer {
   }
 }
 
-export async function generateEd25519VerificationMethod(): Promise<VerificationMethod> {
-  const { secretKey, publicKey } = generateKeyPair();
-  return {
-    type: 'Multikey',
-    publicKeyMultibase: base58btc.encode(new Uint8Array([0xed, 0x01, ...publicKey])),
-    secretKeyMultibase: base58btc.encode(new Uint8Array([0x80, 0x26, ...secretKey])),
-    purpose: 'assertionMethod'
-  };
-}
-
 export const createExampleCrypto = async (vm: VerificationMethod) => {
   return new ExampleCrypto({
     id: `did:key:${vm.publicKeyMultibase}#${vm.publicKeyMultibase}`,
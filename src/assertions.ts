@@ -1,11 +1,11 @@
-import { createSCID, deriveNextKeyHash, resolveVM } from "./utils";
-import { canonicalize } from 'json-canonicalize';
-import { createHash } from './utils/crypto';
+import { createSCID, deriveNextKeyHash, getHashAlgorithm, isKeyInNextKeyHashes, resolveVM } from "./utils";
 import { config } from './config';
-import { concatBuffers } from './utils/buffer';
-import { WitnessParameter, Verifier, WitnessParameterResolution } from './interfaces';
+import { getCryptosuite, prepareDataForSigning } from './cryptography';
+import { KeyType, WitnessParameter, Verifier, WitnessParameterResolution, DIDLogEntry, DataIntegrityProof, LogFetcher } from './interfaces';
 import { validateWitnessParameter } from './witness';
-import { multibaseDecode } from "./utils/multiformats";
+import { decodeMultikey, multibaseDecode } from "./utils/multiformats";
+import { getPublicKeyMultibase } from "./utils/jwk";
+import { InvalidProofError, TimestampError, UnauthorizedKeyError } from './errors';
 
 const isKeyAuthorized = (verificationMethod: string, updateKeys: string[]): boolean => {
   if (config.getEnvValue('IGNORE_ASSERTION_KEY_IS_AUTHORIZED') === 'true') return true;
@@ -28,22 +28,13 @@ const isKeyAuthorized = (verificationMethod: string, updateKeys: string[]): bool
   return false;
 };
 
-const isWitnessAuthorized = (verificationMethod: string, witnesses: string[]): boolean => {
-  if (config.getEnvValue('IGNORE_WITNESS_IS_AUTHORIZED') === 'true') return true;
-
-  if (verificationMethod.startsWith('did:webvh:')) {
-    const didWithoutFragment = verificationMethod.split('#')[0];
-    return witnesses.includes(didWithoutFragment);
-  }
-  return false;
-};
-
 export const documentStateIsValid = async (
   doc: any, 
   updateKeys: string[], 
   witness: WitnessParameterResolution | undefined | null,
   skipWitnessVerification?: boolean,
-  verifier?: Verifier
+  verifier?: Verifier,
+  fetcher?: LogFetcher
 ) => {
   if (config.getEnvValue('IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID') === 'true') {
     return true;
@@ -67,52 +58,56 @@ export const documentStateIsValid = async (
   for (let i = 0; i < proofs.length; i++) {
     const proof = proofs[i];
 
+    // Log entries are signed by update keys only. Witnesses approve entries in did-witness.json
     if (proof.verificationMethod.startsWith('did:key:')) {
       if (!isKeyAuthorized(proof.verificationMethod, updateKeys)) {
-        throw new Error(`Key ${proof.verificationMethod} is not authorized to update.`);
+        throw new UnauthorizedKeyError(`Key ${proof.verificationMethod} is not authorized to update.`, { versionId: doc.versionId });
       }
     } else if (proof.verificationMethod.startsWith('did:webvh:')) {
-      if (witness && witness.witnesses && witness.witnesses.length > 0 && !isWitnessAuthorized(proof.verificationMethod, witness.witnesses.map((w: {id: string}) => w.id))) {
-        throw new Error(`Key ${proof.verificationMethod} is not from an authorized witness.`);
-      }
+      throw new UnauthorizedKeyError(`Key ${proof.verificationMethod} is not an update key. Log entries must be signed with did:key update keys.`, { versionId: doc.versionId });
     } else {
-      throw new Error(`Unsupported verification method: ${proof.verificationMethod}`);
+      throw new InvalidProofError(`Unsupported verification method: ${proof.verificationMethod}`, { versionId: doc.versionId });
     }
     
     if (proof.type !== 'DataIntegrityProof') {
-      throw new Error(`Unknown proof type ${proof.type}`);
+      throw new InvalidProofError(`Unknown proof type ${proof.type}`, { versionId: doc.versionId });
     }
     if (proof.proofPurpose !== 'authentication' && proof.proofPurpose !== 'assertionMethod') {
-      throw new Error(`Unknown proof purpose ${proof.proofPurpose}`);
+      throw new InvalidProofError(`Unknown proof purpose ${proof.proofPurpose}`, { versionId: doc.versionId });
     }
-    if (proof.cryptosuite !== 'eddsa-jcs-2022') {
-      throw new Error(`Unknown cryptosuite ${proof.cryptosuite}`);
+    if (proof.cryptosuite !== 'eddsa-jcs-2022' && proof.cryptosuite !== 'ecdsa-jcs-2019') {
+      throw new InvalidProofError(`Unknown cryptosuite ${proof.cryptosuite}`, { versionId: doc.versionId });
     }
 
-    const vm = await resolveVM(proof.verificationMethod);
+    const vm = await resolveVM(proof.verificationMethod, fetcher);
     if (!vm) {
-      throw new Error(`Verification Method ${proof.verificationMethod} not found`);
+      throw new InvalidProofError(`Verification Method ${proof.verificationMethod} not found`, { versionId: doc.versionId });
     }
 
-    const publicKey = multibaseDecode(vm.publicKeyMultibase).bytes;
-    if (publicKey[0] !== 0xed || publicKey[1] !== 0x01) {
-      throw new Error(`multiKey doesn't include ed25519 header (0xed01)`);
+    let keyType: KeyType;
+    let publicKey: Uint8Array;
+    try {
+      ({ keyType, key: publicKey } = decodeMultikey(getPublicKeyMultibase(vm)));
+    } catch (e: any) {
+      throw new InvalidProofError(`Unsupported key for ${proof.verificationMethod}: ${e.message}`, { versionId: doc.versionId, code: 'UNSUPPORTED_PUBLIC_KEY_TYPE' });
+    }
+    if (proof.cryptosuite !== getCryptosuite(keyType)) {
+      throw new InvalidProofError(`Cryptosuite ${proof.cryptosuite} cannot be used with ${keyType} keys`, { versionId: doc.versionId });
     }
 
     const {proofValue, ...restProof} = proof;
     const signature = multibaseDecode(proofValue).bytes;
-    const dataHash = await createHash(canonicalize(rest));
-    const proofHash = await createHash(canonicalize(restProof));
-    const input = concatBuffers(proofHash, dataHash);
+    const input = await prepareDataForSigning(rest, restProof, keyType);
 
     const verified = await verifier.verify(
       signature,
       input,
-      publicKey.slice(2)
+      publicKey,
+      keyType
     );
     
     if (!verified) {
-      throw new Error(`Proof ${i} failed verification (proofValue: ${proofValue})`);
+      throw new InvalidProofError(`Proof ${i} failed verification (proofValue: ${proofValue})`, { versionId: doc.versionId });
     }
   }
   return true;
@@ -128,9 +123,9 @@ export const newKeysAreInNextKeys = async (updateKeys: string[], previousNextKey
 
   if (previousNextKeyHashes.length > 0) {
     for (const key of updateKeys) {
-      const keyHash = await deriveNextKeyHash(key);
-      if (!previousNextKeyHashes.includes(keyHash)) {
-        throw new Error(`Invalid update key ${keyHash}. Not found in nextKeyHashes ${previousNextKeyHashes}`);
+      if (!await isKeyInNextKeyHashes(key, previousNextKeyHashes)) {
+        const keyHash = await deriveNextKeyHash(key, getHashAlgorithm(previousNextKeyHashes[0]));
+        throw new UnauthorizedKeyError(`Invalid update key ${keyHash}. Not found in nextKeyHashes ${previousNextKeyHashes}`);
       }
     }
   }
@@ -142,3 +137,30 @@ export const scidIsFromHash = async (scid: string, hash: string) => {
   if (config.getEnvValue('IGNORE_ASSERTION_SCID_IS_FROM_HASH') === 'true') return true;
   return scid === await createSCID(hash);
 }
+
+export const timestampsAreValid = (entry: DIDLogEntry, previousVersionTime: string | undefined, maxClockSkew: number, now: Date = new Date()) => {
+  if (config.getEnvValue('IGNORE_ASSERTION_TIMESTAMPS_ARE_VALID') === 'true') return true;
+
+  const { versionId, versionTime } = entry;
+  const time = Date.parse(versionTime);
+  if (isNaN(time)) {
+    throw new TimestampError(`Invalid versionTime '${versionTime}'`, { versionId });
+  }
+  if (previousVersionTime && time < Date.parse(previousVersionTime)) {
+    throw new TimestampError(`versionTime '${versionTime}' is earlier than the previous entry's '${previousVersionTime}'`, { versionId });
+  }
+  if (time > now.getTime() + maxClockSkew * 1000) {
+    throw new TimestampError(`versionTime '${versionTime}' is in the future`, { versionId });
+  }
+
+  const proofs: DataIntegrityProof[] = [].concat(entry.proof ?? [] as any);
+  for (const proof of proofs) {
+    if (!proof.created) continue;
+    const created = Date.parse(proof.created);
+    if (isNaN(created) || created < time) {
+      throw new TimestampError(`Proof created '${proof.created}' is earlier than versionTime '${versionTime}'`, { versionId });
+    }
+  }
+
+  return true;
+}
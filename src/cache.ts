@@ -0,0 +1,22 @@
+import { deepClone } from './utils';
+import type { CachedResolution, ResolutionCache } from './interfaces';
+
+/**
+ * Keeps the last verified resolution of each DID in memory
+ */
+export class MemoryResolutionCache implements ResolutionCache {
+  private entries = new Map<string, CachedResolution>();
+
+  async get(did: string): Promise<CachedResolution | undefined> {
+    const entry = this.entries.get(did);
+    return entry ? deepClone(entry) : undefined;
+  }
+
+  async set(did: string, resolution: CachedResolution): Promise<void> {
+    this.entries.set(did, deepClone(resolution));
+  }
+
+  async delete(did: string): Promise<void> {
+    this.entries.delete(did);
+  }
+}
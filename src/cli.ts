@@ -1,24 +1,19 @@
 #!/usr/bin/env node
 
-import { createDID, updateDID, deactivateDID, resolveDIDFromLog } from './method';
-import { fetchLogFromIdentifier, readLogFromDisk, writeLogToDisk, writeVerificationMethodToEnv } from './utils';
+import { createDID, updateDID, deactivateDID, resolveDIDFromLog, rotateUpdateKeys, verifyLog } from './method';
+import { fetchLogFromIdentifier, readLogFromDisk, writeLogToDisk } from './utils';
 import { dirname } from 'path';
 import fs from 'fs';
-import { DIDLog, ServiceEndpoint, VerificationMethod, Verifier } from './interfaces';
+import { DataIntegrityProof, DIDLog, DIDResolutionMeta, LogVerificationReport, LogWitnessReport, ResolutionOptions, ServiceEndpoint, VerificationMethod, Verifier, WitnessProofFileEntry } from './interfaces';
 import { createBuffer } from './utils/buffer';
 import { bufferToString } from './utils/buffer';
-import { Signer, SigningInput, SigningOutput } from './interfaces';
-import { multibaseEncode } from './utils/multiformats';
-import { MultibaseEncoding } from './utils/multiformats';
-import { verify as ed25519Verify } from '@stablelib/ed25519';
-import { sign as ed25519Sign } from '@stablelib/ed25519';
-import { canonicalize } from 'json-canonicalize';
-import { concatBuffers } from './utils/buffer';
-import { createHash } from './utils/crypto';
-import { multibaseDecode } from './utils/multiformats';
-import { generateKeyPair } from '@stablelib/ed25519';
-
-import { createWitnessProof } from './witness';
+import { Signer } from './interfaces';
+import { EcdsaSigner, Ed25519Signer, generateEd25519VerificationMethod, MultikeyVerifier } from './cryptography';
+import { decodeMultikey } from './utils/multiformats';
+
+import { mergeWitnessProofs, pruneWitnessProofs, signWitnessProof, validateWitnessProofs } from './witness';
+import { findSigningKey, getKeystoreScid, Keystore, StoredKey } from './keystore';
+import { DIDResolutionError, NotFoundError, UnauthorizedKeyError, WitnessError } from './errors';
 
 const usage = `
 Usage: bun run cli [command] [options]
@@ -28,90 +23,207 @@ Commands:
   resolve    Resolve a DID
   update     Update an existing DID
   deactivate Deactivate an existing DID
+  rotate-keys Rotate to the committed next update key and commit to a newly generated one
+  verify     Verify every entry of a DID log and print a pass/fail table
+  history    List every version of a DID with its signer, parameter changes and witness approvals
+  keys generate      Generate a key in the keystore
+  keys list          List the keys in the keystore
+  keys import        Import a key file, or the keys of DID_VERIFICATION_METHODS, into the keystore
+  keys export-public Print the public verification method of a key
   generate-witness-proof Generate witness proofs for a DID version
+  witness-file merge    Merge witness proof files into a did-witness.json file
+  witness-file prune    Remove the proofs a later proof from the same witness makes redundant
+  witness-file validate Check every proof of a did-witness.json file against the DID log
   generate-vm Generate a new verification method keypair
 
 Options:
+  --json                    Print a single JSON object instead of human readable output
   --domain [domain]         Domain for the DID (required for create)
-  --log [file]              Path to the DID log file (required for resolve, update, deactivate)
-  --output [file]           Path to save the updated DID log (optional for create, update, deactivate)
+  --log [file]              Path to the DID log file (required for resolve, update, deactivate, rotate-keys; verify and history take --log or --did)
+  --output [file]           Path to save the updated DID log (optional for create, update, deactivate, rotate-keys)
   --portable                Make the DID portable (optional for create)
   --witness [witness]       Add a witness (can be used multiple times)
   --witness-threshold [n]   Set witness threshold (optional, defaults to number of witnesses)
   --watcher [url]           Add a watcher URL (can be used multiple times)
+  --ttl [seconds]           Set how long resolvers may cache the DID (optional for create, update)
   --service [service]       Add a service (format: type,endpoint) (can be used multiple times)
   --add-vm [type]           Add a verification method (type can be authentication, assertionMethod, keyAgreement, capabilityInvocation, capabilityDelegation)
   --also-known-as [alias]   Add an alsoKnownAs alias (can be used multiple times)
   --next-key-hash [hash]    Add a nextKeyHash (can be used multiple times)
-  --witness-file [file]     Path to witness proofs file (optional for resolve)
+  --witness-file [file]     Path to witness proofs file (optional for resolve, verify, history)
+  --key-file [file]         Sign with this key file instead of the keystore (optional for create, update, deactivate, rotate-keys)
+  --keystore [dir]          Keystore directory (defaults to DIDWEBVH_KEYSTORE or .didwebvh/keys)
+  --passphrase-file [file]  File holding the keystore passphrase (defaults to DIDWEBVH_PASSPHRASE)
+
+  # Options for resolve:
+  --version-id [id]         Resolve the version with this versionId
+  --version-number [n]      Resolve the nth version
+  --version-time [time]     Resolve the version in effect at this time (ISO 8601)
+  --verification-method [id] Resolve the first version containing this verification method
+  --format [format]         Print only JSON: document, resolution (a DID Resolution Result) or metadata
+
+  # Options for keys:
+  --did [did]               The did:webvh DID the keys belong to (optional for generate, list, import)
+  --key-file [file]         The key file to import or export
+  --key [publicKeyMultibase] The stored key to export
+  --from-env                Import the keys of DID_VERIFICATION_METHODS, assigning each to its controller
 
   # Options for generate-witness-proof:
   --version-id [id]         The version ID to generate proofs for (required)
   --witness-did [did]       Witness DID (did:key) (can be used multiple times)
   --witness-secret [secret] Witness secret key multibase (matches witness-did order)
+  --output [file]           The witness proof file, new proofs are merged into it when it exists
+
+  # Options for witness-file:
+  --witness-file [file]     The did-witness.json file (required)
+  --proofs [file]           A witness proof file to merge in (can be used multiple times, required for merge)
+  --log [file]              The DID log (prune and validate take --log or --did)
+  --output [file]           Where to write the merged or pruned file (defaults to --witness-file)
 
 Examples:
   bun run cli create --domain example.com --portable --witness did:example:witness1 --witness did:example:witness2
   bun run cli resolve --did did:webvh:123456:example.com
   bun run cli resolve --log ./did.jsonl --witness-file ./did-witness.json
+  bun run cli resolve --log ./did.jsonl --version-number 2 --format document
+  bun run cli resolve --did did:webvh:123456:example.com --version-time 2024-01-01T00:00:00Z --format resolution
   bun run cli update --log ./did.jsonl --output ./updated-did.jsonl --add-vm keyAgreement --service LinkedDomains,https://example.com
+  bun run cli update --log ./did.jsonl --output ./updated-did.jsonl --ttl 300
   bun run cli deactivate --log ./did.jsonl --output ./deactivated-did.jsonl
+  bun run cli rotate-keys --log ./did.jsonl --output ./did.jsonl
+  bun run cli verify --log ./did.jsonl --witness-file ./did-witness.json
+  bun run cli history --did did:webvh:123456:example.com
   bun run cli generate-witness-proof --version-id 1-abc123 --witness-did did:key:z6Mk... --witness-secret z1A... --output did-witness.json
+  bun run cli witness-file merge --witness-file did-witness.json --proofs witness2.json
+  bun run cli witness-file prune --log ./did.jsonl --witness-file did-witness.json
+  bun run cli witness-file validate --log ./did.jsonl --witness-file did-witness.json
+  bun run cli keys generate --did did:webvh:123456:example.com
+  bun run cli keys import --from-env
+  bun run cli update --log ./did.jsonl --output ./did.jsonl --key-file ./.didwebvh/keys/123456/z6Mk....json
   bun run cli generate-vm
+  bun run cli resolve --log ./did.jsonl --json
+
+Exit codes:
+  0  Success
+  1  Unexpected error
+  2  Invalid command or options
+  3  DID, log or file not found
+  4  Invalid DID log
+  5  Unauthorized key
+  6  Witness failure
 `;
 
-// Add this function at the top with the other constants
-function showHelp() {
-  console.log(usage);
+/**
+ * Exit codes of the CLI, so scripts can tell failures apart
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1,
+  USAGE: 2,
+  NOT_FOUND: 3,
+  INVALID_LOG: 4,
+  UNAUTHORIZED_KEY: 5,
+  WITNESS_FAILURE: 6
+} as const;
+
+// With --json, each command prints a single JSON object instead of human readable output
+let jsonMode = false;
+
+function info(...message: any[]) {
+  if (!jsonMode) {
+    console.log(...message);
+  }
 }
 
-async function generateVerificationMethod(purpose: "authentication" | "assertionMethod" | "keyAgreement" | "capabilityInvocation" | "capabilityDelegation" = 'authentication'): Promise<VerificationMethod> {
-  const keyPair = generateKeyPair();
-  const publicKeyBytes = new Uint8Array([0xed, 0x01, ...keyPair.publicKey]);
-  const secretKeyBytes = new Uint8Array([0x80, 0x26, ...keyPair.secretKey]);
-  return {
-    type: 'Multikey',
-    publicKeyMultibase: multibaseEncode(publicKeyBytes, MultibaseEncoding.BASE58_BTC),
-    secretKeyMultibase: multibaseEncode(secretKeyBytes, MultibaseEncoding.BASE58_BTC),
-    purpose
-  };
+function emit(result: Record<string, any>) {
+  if (jsonMode) {
+    console.log(JSON.stringify({ success: true, ...result }, null, 2));
+  }
 }
-class CustomCryptoImplementation implements Signer, Verifier {
-  private verificationMethod?: VerificationMethod;
-  
-  constructor(verificationMethod?: VerificationMethod) {
-    this.verificationMethod = verificationMethod;
-  }
-  
-  getVerificationMethodId(): string {
-    if (!this.verificationMethod) {
-      throw new Error('Verification method not set');
-    }
-    return `did:key:${this.verificationMethod.publicKeyMultibase}#${this.verificationMethod.publicKeyMultibase}`;
+
+/**
+ * Maps an error to the exit code of the CLI
+ * @param error - The error a command failed with
+ * @returns The exit code
+ */
+export function getExitCode(error: unknown): number {
+  if (error instanceof NotFoundError || (error as any)?.code === 'ENOENT') {
+    return EXIT_CODES.NOT_FOUND;
   }
-  
-  async sign(input: SigningInput): Promise<SigningOutput> {
-    if (!this.verificationMethod) {
-      throw new Error('Verification method not set');
-    }
-    const { document, proof } = input;
-    const dataHash = await createHash(canonicalize(document));
-    const proofHash = await createHash(canonicalize(proof));
-    const message = concatBuffers(proofHash, dataHash);
-    const secretKey = multibaseDecode(this.verificationMethod.secretKeyMultibase!).bytes.slice(2);
-    const signature = ed25519Sign(secretKey, message);
-    return {
-      proofValue: multibaseEncode(signature, MultibaseEncoding.BASE58_BTC)
-    };
+  if (error instanceof UnauthorizedKeyError) {
+    return EXIT_CODES.UNAUTHORIZED_KEY;
+  }
+  if (error instanceof WitnessError) {
+    return EXIT_CODES.WITNESS_FAILURE;
   }
+  if (error instanceof DIDResolutionError) {
+    return EXIT_CODES.INVALID_LOG;
+  }
+  return EXIT_CODES.ERROR;
+}
 
-  async verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): Promise<boolean> {
-    return ed25519Verify(publicKey, message, signature);
+function exitWithError(message: string, error: { name: string, code: string, message: string, versionId?: string }, exitCode: number): never {
+  if (jsonMode) {
+    console.log(JSON.stringify({ success: false, error: { ...error, exitCode } }, null, 2));
+  } else {
+    console.error(message);
   }
+  process.exit(exitCode);
+}
+
+function fail(context: string, error: unknown): never {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const code = err instanceof DIDResolutionError ? err.code : (err as any).code === 'ENOENT' ? 'NOT_FOUND' : 'INTERNAL_ERROR';
+  const versionId = err instanceof DIDResolutionError ? err.versionId : undefined;
+  exitWithError(`${context}: ${err.message}`, { name: err.name, code, message: err.message, ...(versionId ? { versionId } : {}) }, getExitCode(err));
+}
+
+function usageError(message: string): never {
+  exitWithError(message, { name: 'UsageError', code: 'INVALID_OPTIONS', message }, EXIT_CODES.USAGE);
+}
+
+// Add this function at the top with the other constants
+function showHelp() {
+  console.log(usage);
 }
 
 function createCustomCrypto(verificationMethod?: VerificationMethod): Signer & Verifier {
-  return new CustomCryptoImplementation(verificationMethod);
+  return verificationMethod ? new Ed25519Signer({ verificationMethod }) : new MultikeyVerifier();
+}
+
+// Keys stored by earlier versions of the CLI as a base64 JSON array in DID_VERIFICATION_METHODS
+function readLegacyEnvKeys(): VerificationMethod[] {
+  const envContent = fs.existsSync('.env') ? fs.readFileSync('.env', 'utf8') : '';
+  const encoded = process.env.DID_VERIFICATION_METHODS ?? envContent.match(/DID_VERIFICATION_METHODS=(.+)/)?.[1];
+  return encoded ? JSON.parse(bufferToString(createBuffer(encoded, 'base64'))) : [];
+}
+
+// The keystore passphrase comes from --passphrase-file or DIDWEBVH_PASSPHRASE
+function openKeystore(options: Record<string, string | string[] | undefined>, needsPassphrase = true): Keystore {
+  const passphraseFile = options['passphrase-file'] as string | undefined;
+  const passphrase = passphraseFile ? fs.readFileSync(passphraseFile, 'utf8').replace(/\r?\n$/, '') : process.env.DIDWEBVH_PASSPHRASE;
+  if (needsPassphrase && !passphrase) {
+    usageError('A keystore passphrase is required, set DIDWEBVH_PASSPHRASE or pass --passphrase-file');
+  }
+  return new Keystore({
+    dir: options['keystore'] as string | undefined,
+    passphrase,
+    scryptN: process.env.DIDWEBVH_SCRYPT_N ? Number(process.env.DIDWEBVH_SCRYPT_N) : undefined
+  });
+}
+
+/**
+ * Picks the key that signs the next entry: the --key-file if given, otherwise the one
+ * authorized key in the DID's keystore directory
+ * @param keystore - The keystore
+ * @param options - The command options
+ * @param meta - The resolution metadata of the latest version
+ * @returns The signing key
+ */
+async function getSigningKey(keystore: Keystore, options: Record<string, string | string[] | undefined>, meta: DIDResolutionMeta): Promise<StoredKey> {
+  if (options['key-file']) {
+    return keystore.read(options['key-file'] as string);
+  }
+  return findSigningKey(await keystore.list(meta.scid), meta);
 }
 
 export async function handleCreate(args: string[]) {
@@ -126,15 +238,18 @@ export async function handleCreate(args: string[]) {
   const witnesses = options['witness'] as string[] | undefined;
   const watchers = options['watcher'] as string[] | undefined;
   const witnessThreshold = options['witness-threshold'] ? parseInt(options['witness-threshold'] as string) : witnesses?.length ?? 0;
+  const ttl = parseTtl(options);
 
   if (!domain) {
-    console.error('Domain is required for create command');
-    process.exit(1);
+    usageError('Domain is required for create command');
   }
 
   try {
-    const authKey = await generateVerificationMethod();
-    const crypto = createCustomCrypto(authKey)
+    const keystore = openKeystore(options);
+    const keyFile = options['key-file'] as string | undefined;
+    const stored = keyFile ? await keystore.read(keyFile) : undefined;
+    const authKey = stored?.key ?? await generateEd25519VerificationMethod();
+    const crypto = stored ? await keystore.getSigner(stored) : createCustomCrypto(authKey);
     
     // Strip secret key from verification method for DID document (security)
     const publicAuthKey = {
@@ -149,8 +264,8 @@ export async function handleCreate(args: string[]) {
       domain,
       paths,
       signer: crypto,
-      verifier: crypto,
-      updateKeys: [authKey.publicKeyMultibase!],
+      verifier: new MultikeyVerifier(),
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [publicAuthKey],
       portable,
       witness: witnesses?.length ? {
@@ -158,10 +273,21 @@ export async function handleCreate(args: string[]) {
         threshold: witnessThreshold
       } : undefined,
       watchers: watchers ?? undefined,
+      ttl,
       nextKeyHashes,
     });
 
-    console.log('Created DID:', did);
+    info('Created DID:', did);
+
+    // Generated keys are stored under the new DID, a --key-file stays where it is
+    if (!keyFile) {
+      const { path } = await keystore.add({
+        ...authKey,
+        controller: did,
+        id: `${did}#${authKey.publicKeyMultibase?.slice(-8)}`
+      }, meta.scid);
+      info(`DID update key saved to ${path}`);
+    }
 
     if (output) {
       // Ensure output directory exists
@@ -172,26 +298,17 @@ export async function handleCreate(args: string[]) {
 
       // Write log to file
       await writeLogToDisk(output, log);
-      console.log(`DID log written to ${output}`);
-
-      // Save verification method to env
-      await writeVerificationMethodToEnv({
-        ...authKey, 
-        controller: did, 
-        id: `${did}#${authKey.publicKeyMultibase?.slice(-8)}`
-      });
-      console.log(`DID verification method saved to env`);
-
+      info(`DID log written to ${output}`);
     } else {
       // If no output specified, print to console
-      console.log('DID Document:', JSON.stringify(doc, null, 2));
-      console.log('DID Log:', JSON.stringify(log, null, 2));
+      info('DID Document:', JSON.stringify(doc, null, 2));
+      info('DID Log:', JSON.stringify(log, null, 2));
     }
 
+    emit({ did, doc, meta, ...(output ? { logFile: output } : { log }) });
     return { did, doc, meta, log };
   } catch (error) {
-    console.error('Error creating DID:', error);
-    process.exit(1);
+    fail('Error creating DID', error);
   }
 }
 
@@ -200,10 +317,13 @@ export async function handleResolve(args: string[]) {
   const didIdentifier = options['did'] as string;
   const logFile = options['log'] as string;
   const witnessFile = options['witness-file'] as string | undefined;
+  const format = options['format'] as string | undefined;
 
   if (!didIdentifier && !logFile) {
-    console.error('Either --did or --log is required for resolve command');
-    process.exit(1);
+    usageError('Either --did or --log is required for resolve command');
+  }
+  if (format !== undefined && !RESOLVE_FORMATS.includes(format)) {
+    usageError(`Invalid format '${format}': must be one of ${RESOLVE_FORMATS.join(', ')}`);
   }
 
   try {
@@ -221,20 +341,77 @@ export async function handleResolve(args: string[]) {
     }
     const crypto = createCustomCrypto();
     resolutionOptions.verifier = crypto;
+    Object.assign(resolutionOptions, parseVersionOptions(options));
+
+    if (format) {
+      const { did, doc, meta } = await resolveDIDFromLog(log, resolutionOptions);
+      const output = format === 'document'
+        ? doc
+        : format === 'metadata'
+          ? meta
+          : {
+            '@context': 'https://w3id.org/did-resolution/v1',
+            didDocument: doc,
+            didDocumentMetadata: meta,
+            didResolutionMetadata: { contentType: 'application/did+ld+json' }
+          };
+      console.log(JSON.stringify(output, null, 2));
+      return { did, doc, meta };
+    }
 
-    console.time('Resolution time');
+    const started = Date.now();
     const { did, doc, meta } = await resolveDIDFromLog(log, resolutionOptions);
-    console.timeEnd('Resolution time');
+    info(`Resolution time: ${Date.now() - started}ms`);
 
-    console.log('Resolved DID:', did);
-    console.log('DID Document:', JSON.stringify(doc, null, 2));
-    console.log('Metadata:', JSON.stringify(meta, null, 2));
+    info('Resolved DID:', did);
+    info('DID Document:', JSON.stringify(doc, null, 2));
+    info('Metadata:', JSON.stringify(meta, null, 2));
+    emit({ did, doc, meta });
 
     return { did, doc, meta };
   } catch (error) {
-    console.error('Error resolving DID:', error);
-    process.exit(1);
+    fail('Error resolving DID', error);
+  }
+}
+
+const RESOLVE_FORMATS = ['document', 'resolution', 'metadata'];
+
+// Reads the --ttl flag of the create and update commands
+function parseTtl(options: Record<string, string | string[] | undefined>): number | undefined {
+  if (options['ttl'] === undefined) {
+    return undefined;
+  }
+  const ttl = Number(options['ttl']);
+  if (options['ttl'] === '' || !Number.isInteger(ttl) || ttl < 0) {
+    usageError(`Invalid ttl '${options['ttl']}', it must be a whole number of seconds`);
+  }
+  return ttl;
+}
+
+// Reads the version selection flags of the resolve command
+function parseVersionOptions(options: Record<string, string | string[] | undefined>): Partial<ResolutionOptions> {
+  const versionOptions: Partial<ResolutionOptions> = {};
+  if (options['version-id']) {
+    versionOptions.versionId = options['version-id'] as string;
+  }
+  if (options['version-number']) {
+    const versionNumber = Number(options['version-number']);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      usageError(`Invalid version number '${options['version-number']}'`);
+    }
+    versionOptions.versionNumber = versionNumber;
   }
+  if (options['version-time']) {
+    const versionTime = new Date(options['version-time'] as string);
+    if (isNaN(versionTime.getTime())) {
+      usageError(`Invalid version time '${options['version-time']}'`);
+    }
+    versionOptions.versionTime = versionTime;
+  }
+  if (options['verification-method']) {
+    versionOptions.verificationMethod = options['verification-method'] as string;
+  }
+  return versionOptions;
 }
 
 export async function handleUpdate(args: string[]) {
@@ -248,46 +425,25 @@ export async function handleUpdate(args: string[]) {
   const alsoKnownAs = options['also-known-as'] as string[] | undefined;
   const updateKey = options['update-key'] as string | undefined;
   const watchers = options['watcher'] as string[] | undefined;
+  const ttl = parseTtl(options);
 
   if (!logFile) {
-    console.error('Log file is required for update command');
-    process.exit(1);
+    usageError('Log file is required for update command');
   }
 
   try {
     const log = await readLogFromDisk(logFile);
     const { did, meta } = await resolveDIDFromLog(log, { verifier: createCustomCrypto() });
-    // console.log('\nCurrent DID:', did);
-    // console.log('Current meta:', meta);
-    
-    // Get the verification method from environment
-    const envVMs = JSON.parse(bufferToString(createBuffer(process.env.DID_VERIFICATION_METHODS || 'W10=', 'base64')));
-    
-    let vm = envVMs.find((vm: any) => vm.controller === did);
-    
-    if (!vm) {
-      // Try to find VM by matching public key with current update keys
-      vm = envVMs.find((vm: any) => meta.updateKeys.includes(vm.publicKeyMultibase));
-    }
-    
-    if (!vm && envVMs.length > 0) {
-      // Fall back to first available VM with warning
-      console.warn('Warning: No matching verification method found for DID or update keys. Using first available VM.');
-      vm = envVMs[0];
-    }
-    
-    // console.log('\nFound VM:', vm);
-    
-    if (!vm) {
-      throw new Error('No verification method found in environment');
-    }
+    const keystore = openKeystore(options);
+    const signingKey = await getSigningKey(keystore, options, meta);
+    const vm = signingKey.key;
 
     // Create verification methods array
     const verificationMethods: VerificationMethod[] = [];
     
     // If we're adding VMs, create a VM for each type
     if (addVm && addVm.length > 0) {
-      const vmId = `${did}#${vm.publicKeyMultibase!.slice(-8)}`;
+      const vmId = `${did}#${vm.publicKeyMultibase.slice(-8)}`;
       
       // Add a verification method for each type
       for (const vmType of addVm) {
@@ -303,7 +459,7 @@ export async function handleUpdate(args: string[]) {
     } else {
       // For non-VM updates (services, alsoKnownAs), still need a VM with purpose
       verificationMethods.push({
-        id: `${did}#${vm.publicKeyMultibase!.slice(-8)}`,
+        id: `${did}#${vm.publicKeyMultibase.slice(-8)}`,
         type: "Multikey",
         controller: did,
         publicKeyMultibase: vm.publicKeyMultibase,
@@ -311,31 +467,32 @@ export async function handleUpdate(args: string[]) {
       });
     }
 
-    const crypto = createCustomCrypto(vm);
+    const crypto = await keystore.getSigner(signingKey);
     const result = await updateDID({
       log,
       signer: crypto,
-      verifier: crypto,
-      updateKeys: [vm.publicKeyMultibase!],
+      verifier: new MultikeyVerifier(),
+      updateKeys: [vm.publicKeyMultibase],
       verificationMethods,
       witness: witnesses?.length ? {
         witnesses: witnesses.map(witness => ({id: witness})),
         threshold: witnessThreshold ?? witnesses.length
       } : undefined,
       watchers: watchers ?? undefined,
+      ttl,
       services,
       alsoKnownAs
     });
 
     if (output) {
       await writeLogToDisk(output, result.log);
-      console.log(`Updated DID log written to ${output}`);
+      info(`Updated DID log written to ${output}`);
     }
 
+    emit({ did: result.did, doc: result.doc, meta: result.meta, ...(output ? { logFile: output } : { log: result.log }) });
     return result;
   } catch (error) {
-    console.error('Error updating DID:', error);
-    process.exit(1);
+    fail('Error updating DID', error);
   }
 }
 
@@ -345,55 +502,266 @@ export async function handleDeactivate(args: string[]) {
   const output = options['output'] as string | undefined;
 
   if (!logFile) {
-    console.error('Log file is required for deactivate command');
-    process.exit(1);
+    usageError('Log file is required for deactivate command');
   }
 
   try {
     // Read the current log to get the latest state
     const log = await readLogFromDisk(logFile);
-    const { did, meta } = await resolveDIDFromLog(log);
-    
-    // Get the verification method from environment
-    const envContent = fs.readFileSync('.env', 'utf8');
-    const vmMatch = envContent.match(/DID_VERIFICATION_METHODS=(.+)/);
-    if (!vmMatch) {
-      throw new Error('No verification method found in .env file');
-    }
+    const { meta } = await resolveDIDFromLog(log, { verifier: createCustomCrypto() });
+    const keystore = openKeystore(options);
+    const crypto = await keystore.getSigner(await getSigningKey(keystore, options, meta));
+    const result = await deactivateDID({
+      log,
+      signer: crypto,
+      verifier: new MultikeyVerifier(),
+    });
 
-    // Parse the VM from env
-    const vms = JSON.parse(bufferToString(createBuffer(vmMatch[1], 'base64')));
-    if (!vms || vms.length === 0) {
-      throw new Error('No verification method found in environment');
+    if (output) {
+      await writeLogToDisk(output, result.log);
+      info(`Deactivated DID log written to ${output}`);
     }
 
-    // Find VM that matches the current update key
-    let vm = vms.find((v: any) => v.publicKeyMultibase === meta.updateKeys[0]);
-    
-    if (!vm) {
-      // If no matching VM found, use the first one and warn
-      console.warn('Warning: No matching verification method found for current update key. Using first available VM.');
-      vm = vms[0];
-    }
+    emit({ did: result.did, doc: result.doc, meta: result.meta, ...(output ? { logFile: output } : { log: result.log }) });
+    return result;
+  } catch (error) {
+    fail('Error deactivating DID', error);
+  }
+}
 
-    // Don't modify the publicKeyMultibase - it should match the secretKeyMultibase
+export async function handleRotateKeys(args: string[]) {
+  const options = parseOptions(args);
+  const logFile = options['log'] as string;
+  const output = options['output'] as string | undefined;
 
-    const crypto = createCustomCrypto(vm);
-    const result = await deactivateDID({
+  if (!logFile) {
+    usageError('Log file is required for rotate-keys command');
+  }
+
+  try {
+    const log = await readLogFromDisk(logFile);
+    const { did, meta } = await resolveDIDFromLog(log, { verifier: createCustomCrypto() });
+
+    // With pre-rotation active the committed next key becomes the update key, otherwise the current key stays
+    const keystore = openKeystore(options);
+    const signingKey = await getSigningKey(keystore, options, meta);
+    const vm = signingKey.key;
+
+    const nextKey = await generateEd25519VerificationMethod();
+    const crypto = await keystore.getSigner(signingKey);
+    const result = await rotateUpdateKeys({
       log,
       signer: crypto,
-      verifier: crypto,
+      verifier: new MultikeyVerifier(),
+      newUpdateKeys: [vm.publicKeyMultibase],
+      nextUpdateKeys: [nextKey.publicKeyMultibase]
     });
 
+    const { path: nextKeyPath } = await keystore.add({
+      ...nextKey,
+      controller: did,
+      id: `${did}#${nextKey.publicKeyMultibase?.slice(-8)}`
+    }, meta.scid);
+    info(`Next update key ${nextKey.publicKeyMultibase} saved to ${nextKeyPath}`);
+
     if (output) {
       await writeLogToDisk(output, result.log);
-      console.log(`Deactivated DID log written to ${output}`);
+      info(`Rotated DID log written to ${output}`);
     }
 
+    emit({ did: result.did, doc: result.doc, meta: result.meta, nextUpdateKey: nextKey.publicKeyMultibase, ...(output ? { logFile: output } : { log: result.log }) });
     return result;
   } catch (error) {
-    console.error('Error deactivating DID:', error);
-    process.exit(1);
+    fail('Error rotating keys', error);
+  }
+}
+
+// Reads the log and witness proofs for the verify and history commands and builds the verification report
+async function verifyLogFromOptions(command: string, options: Record<string, string | string[] | undefined>): Promise<LogVerificationReport> {
+  const didIdentifier = options['did'] as string;
+  const logFile = options['log'] as string;
+  const witnessFile = options['witness-file'] as string | undefined;
+
+  if (!didIdentifier && !logFile) {
+    usageError(`Either --did or --log is required for ${command} command`);
+  }
+
+  const log = logFile ? await readLogFromDisk(logFile) : await fetchLogFromIdentifier(didIdentifier);
+  const witnessProofs: WitnessProofFileEntry[] | undefined = witnessFile ? JSON.parse(fs.readFileSync(witnessFile, 'utf8')) : undefined;
+  return verifyLog(log, { verifier: new MultikeyVerifier(), witnessProofs });
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+const CHECK_NAMES = ['versionNumber', 'scid', 'hashChain', 'timestamps', 'proof', 'prerotation', 'portability', 'witnesses', 'previousWitnesses'] as const;
+
+export async function handleVerify(args: string[]) {
+  const options = parseOptions(args);
+
+  try {
+    const report = await verifyLogFromOptions('verify', options);
+    const rows = [['Version', 'Time', ...CHECK_NAMES, 'Result']];
+    for (const entry of report.entries) {
+      const checks = entry.checks as Record<string, { valid: boolean } | undefined>;
+      rows.push([
+        entry.versionId.split('-')[0],
+        entry.versionTime,
+        ...CHECK_NAMES.map(name => checks[name] ? (checks[name]!.valid ? 'ok' : 'FAIL') : '-'),
+        entry.valid ? 'PASS' : 'FAIL'
+      ]);
+    }
+
+    info(`DID: ${report.did}`);
+    info(formatTable(rows));
+    for (const entry of report.entries.filter(entry => !entry.valid)) {
+      for (const [name, check] of Object.entries(entry.checks)) {
+        if (check && !check.valid) {
+          info(`${entry.versionId} ${name}: ${check.error}`);
+        }
+      }
+    }
+    info(report.valid ? 'Log is valid' : 'Log is invalid');
+    emit({ success: report.valid, did: report.did, valid: report.valid, entries: report.entries });
+
+    if (!report.valid) {
+      // Only failed witness checks are reported as a witness failure
+      const failedChecks = report.entries.flatMap(entry => Object.entries(entry.checks).filter(([, check]) => check && !check.valid).map(([name]) => name));
+      process.exit(failedChecks.every(name => name === 'witnesses' || name === 'previousWitnesses') ? EXIT_CODES.WITNESS_FAILURE : EXIT_CODES.INVALID_LOG);
+    }
+    return report;
+  } catch (error) {
+    fail('Error verifying DID log', error);
+  }
+}
+
+const formatValue = (value: any) => value === undefined ? 'unset' : JSON.stringify(value);
+const formatApprovals = ({ approvals, threshold, approvedBy }: LogWitnessReport) =>
+  `${approvals}/${threshold} approvals${approvedBy.length ? ` (${approvedBy.join(', ')})` : ''}`;
+
+export async function handleHistory(args: string[]) {
+  const options = parseOptions(args);
+
+  try {
+    const report = await verifyLogFromOptions('history', options);
+    info(`DID: ${report.did}`);
+    for (const entry of report.entries) {
+      info(`\n${entry.versionId}${entry.valid ? '' : ' (invalid)'}`);
+      info(`  Time:      ${entry.versionTime}`);
+      const signers = entry.checks.proof.signers.map(signer => signer.verificationMethod.startsWith('did:key:')
+        ? signer.verificationMethod.split('did:key:')[1].split('#')[0]
+        : signer.verificationMethod);
+      info(`  Signed by: ${signers.join(', ') || 'none'}`);
+      const witnesses = entry.checks.witnesses;
+      info(`  Witnesses: ${witnesses ? formatApprovals(witnesses) : 'none'}`);
+      if (entry.checks.previousWitnesses) {
+        info(`  Replaced witnesses: ${formatApprovals(entry.checks.previousWitnesses)}`);
+      }
+      const changes = Object.entries(entry.parameterChanges);
+      info(changes.length ? '  Changes:' : '  Changes:   none');
+      for (const [name, change] of changes) {
+        info(`    ${name}: ${formatValue(change.from)} -> ${formatValue(change.to)}`);
+      }
+    }
+    emit({ did: report.did, entries: report.entries });
+    return report;
+  } catch (error) {
+    fail('Error reading DID history', error);
+  }
+}
+
+function describeStoredKey({ scid, path, key }: StoredKey) {
+  return { scid, publicKeyMultibase: key.publicKeyMultibase, controller: key.controller, keyFile: path };
+}
+
+export async function handleKeys(args: string[]) {
+  const [subcommand, ...subcommandArgs] = args;
+  const options = parseOptions(subcommandArgs);
+  const did = options['did'] as string | undefined;
+
+  if (did && !did.startsWith('did:webvh:')) {
+    usageError(`--did must be a did:webvh DID, got ${did}`);
+  }
+  const scid = did ? getKeystoreScid(did) : undefined;
+  // Keys imported for a DID are stored with it as their controller
+  const assignTo = <T extends VerificationMethod>(key: T): T => did
+    ? { ...key, controller: did, id: `${did}#${key.publicKeyMultibase.slice(-8)}` }
+    : key;
+
+  try {
+    switch (subcommand) {
+      case 'generate': {
+        const stored = await openKeystore(options).generate({ did });
+        info(`Generated key ${stored.key.publicKeyMultibase}`);
+        info(`Key written to ${stored.path}`);
+        emit(describeStoredKey(stored));
+        break;
+      }
+      case 'list': {
+        const keys = await openKeystore(options, false).list(scid);
+        if (keys.length === 0) {
+          info('No keys found');
+        } else {
+          info(formatTable([
+            ['SCID', 'Public key', 'Key file'],
+            ...keys.map(({ scid, path, key }) => [scid ?? '-', key.publicKeyMultibase, path])
+          ]));
+        }
+        emit({ keys: keys.map(describeStoredKey) });
+        break;
+      }
+      case 'import': {
+        const keyFile = options['key-file'] as string | undefined;
+        if (!keyFile && options['from-env'] === undefined) {
+          usageError('keys import requires --key-file or --from-env');
+        }
+        const imported: StoredKey[] = [];
+        if (keyFile) {
+          const content = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+          // Encrypted key files are copied as they are, plaintext keys are encrypted first
+          if (content.encryptedSecretKey) {
+            const keystore = openKeystore(options, false);
+            const stored = await keystore.read(keyFile);
+            imported.push(await keystore.write(assignTo(stored.key), scid ?? stored.scid));
+          } else {
+            imported.push(await openKeystore(options).add(assignTo({ type: 'Multikey', ...content }), scid));
+          }
+        } else {
+          const keystore = openKeystore(options);
+          for (const vm of readLegacyEnvKeys()) {
+            const key = assignTo(vm);
+            imported.push(await keystore.add(key, key.controller?.startsWith('did:webvh:') ? getKeystoreScid(key.controller) : undefined));
+          }
+        }
+        for (const { path, key } of imported) {
+          info(`Imported key ${key.publicKeyMultibase} to ${path}`);
+        }
+        emit({ keys: imported.map(describeStoredKey) });
+        break;
+      }
+      case 'export-public': {
+        const keyFile = options['key-file'] as string | undefined;
+        const publicKeyMultibase = options['key'] as string | undefined;
+        if (!keyFile && !publicKeyMultibase) {
+          usageError('keys export-public requires --key-file or --key');
+        }
+        const keystore = openKeystore(options, false);
+        const stored = keyFile ? await keystore.read(keyFile) : await keystore.find(publicKeyMultibase!, scid);
+        if (!stored) {
+          throw new NotFoundError(`Key ${publicKeyMultibase} not found in the keystore`);
+        }
+        const { encryptedSecretKey, ...verificationMethod } = stored.key;
+        info(JSON.stringify(verificationMethod, null, 2));
+        emit({ verificationMethod });
+        break;
+      }
+      default:
+        usageError(`Unknown keys command: ${subcommand ?? ''}`.trim());
+    }
+  } catch (error) {
+    fail('Error managing keys', error);
   }
 }
 
@@ -405,53 +773,107 @@ async function handleGenerateWitnessProof(args: string[]) {
   const output = options['output'] as string;
 
   if (!versionId) {
-    console.error('Version ID is required');
-    process.exit(1);
+    usageError('Version ID is required');
   }
   if (!output) {
-    console.error('Output file is required');
-    process.exit(1);
+    usageError('Output file is required');
   }
   if (!witnessDids || !witnessSecrets || witnessDids.length !== witnessSecrets.length) {
-    console.error('Must provide matching number of witness DIDs and secrets');
-    process.exit(1);
-  }
-
-  const proofs = [];
-  for (let i = 0; i < witnessDids.length; i++) {
-    const did = witnessDids[i];
-    const secret = witnessSecrets[i];
-    const publicKeyMultibase = did.split(':')[2];
-    const vm: VerificationMethod = {
-      type: 'Multikey',
-      publicKeyMultibase,
-      secretKeyMultibase: secret,
-      purpose: 'authentication'
-    };
-    const crypto = createCustomCrypto(vm);
-    const signerFn = async (data: any) => {
-      const proofTemplate = {
-        type: 'DataIntegrityProof',
-        cryptosuite: 'eddsa-jcs-2022',
-        verificationMethod: `${did}#${publicKeyMultibase}`,
-        created: new Date().toISOString(),
-        proofPurpose: 'authentication'
-      };
-      const signingInput = { document: data, proof: proofTemplate };
-      const signed = await crypto.sign(signingInput);
-      return { proof: { ...proofTemplate, proofValue: signed.proofValue } };
-    };
-    const proof = await createWitnessProof(signerFn, versionId);
-    proofs.push(proof);
+    usageError('Must provide matching number of witness DIDs and secrets');
+  }
+  const otherDid = witnessDids.find(did => !did.startsWith('did:key:'));
+  if (otherDid) {
+    usageError(`Witness DID ${otherDid} must be a did:key DID`);
   }
 
-  const witnessFileContent = [{
-    versionId,
-    proof: proofs
-  }];
+  const proofs: DataIntegrityProof[] = [];
+  try {
+    for (let i = 0; i < witnessDids.length; i++) {
+      const did = witnessDids[i];
+      const secretKeyMultibase = witnessSecrets[i];
+      const publicKeyMultibase = did.split(':')[2];
+      const publicKey = decodeMultikey(publicKeyMultibase);
+      const secretKey = decodeMultikey(secretKeyMultibase);
+      if (publicKey.secret || !secretKey.secret || publicKey.keyType !== secretKey.keyType) {
+        throw new Error(`The secret of ${did} isn't a ${publicKey.keyType} secret key`);
+      }
+      const verificationMethod: VerificationMethod = { type: 'Multikey', publicKeyMultibase, secretKeyMultibase, purpose: 'authentication' };
+      const signer = publicKey.keyType === 'Ed25519' ? new Ed25519Signer({ verificationMethod }) : new EcdsaSigner({ verificationMethod });
+      proofs.push(await signWitnessProof(signer, versionId, publicKey.keyType));
+    }
+  } catch (error) {
+    fail('Error generating witness proof', error);
+  }
+
+  // Proofs already in the output file are kept
+  const existing: WitnessProofFileEntry[] = fs.existsSync(output) ? JSON.parse(fs.readFileSync(output, 'utf8')) : [];
+  const witnessFileContent = mergeWitnessProofs(existing, [{ versionId, proof: proofs }]);
 
   fs.writeFileSync(output, JSON.stringify(witnessFileContent, null, 2));
-  console.log(`Witness proof file generated at ${output}`);
+  info(`Witness proofs written to ${output}`);
+  emit({ versionId, witnessFile: output, proofs });
+}
+
+const readWitnessFile = (path: string): WitnessProofFileEntry[] => JSON.parse(fs.readFileSync(path, 'utf8'));
+
+export async function handleWitnessFile(args: string[]) {
+  const [subcommand, ...subcommandArgs] = args;
+  const options = parseOptions(subcommandArgs);
+  const witnessFile = options['witness-file'] as string | undefined;
+  const output = (options['output'] as string | undefined) || witnessFile;
+
+  if (!witnessFile) {
+    usageError(`--witness-file is required for witness-file ${subcommand ?? ''}`.trim());
+  }
+  const readLog = async (): Promise<DIDLog> => {
+    if (!options['log'] && !options['did']) {
+      usageError(`Either --did or --log is required for witness-file ${subcommand}`);
+    }
+    return options['log'] ? readLogFromDisk(options['log'] as string) : fetchLogFromIdentifier(options['did'] as string);
+  };
+
+  try {
+    switch (subcommand) {
+      case 'merge': {
+        const proofFiles = options['proofs'] as string[] | undefined;
+        if (!proofFiles?.length) {
+          usageError('witness-file merge requires --proofs');
+        }
+        const existing = fs.existsSync(witnessFile) ? readWitnessFile(witnessFile) : [];
+        const merged = mergeWitnessProofs(existing, ...proofFiles.map(readWitnessFile));
+        fs.writeFileSync(output!, JSON.stringify(merged, null, 2));
+        info(`Merged ${proofFiles.length} file(s) into ${output}`);
+        emit({ witnessFile: output, witnessProofs: merged });
+        break;
+      }
+      case 'prune': {
+        const witnessProofs = readWitnessFile(witnessFile);
+        const pruned = await pruneWitnessProofs(await readLog(), witnessProofs, new MultikeyVerifier());
+        const countProofs = (entries: WitnessProofFileEntry[]) => entries.reduce((count, entry) => count + entry.proof.length, 0);
+        const removed = countProofs(witnessProofs) - countProofs(pruned);
+        fs.writeFileSync(output!, JSON.stringify(pruned, null, 2));
+        info(`Removed ${removed} redundant proof(s), written to ${output}`);
+        emit({ witnessFile: output, removed, witnessProofs: pruned });
+        break;
+      }
+      case 'validate': {
+        const report = await validateWitnessProofs(await readLog(), readWitnessFile(witnessFile), new MultikeyVerifier());
+        for (const issue of report.issues) {
+          info(`${issue.versionId}${issue.verificationMethod ? ` ${issue.verificationMethod}` : ''}: ${issue.error}`);
+        }
+        info(report.valid ? 'Witness proof file is valid' : 'Witness proof file is invalid');
+        emit({ success: report.valid, valid: report.valid, issues: report.issues });
+        if (!report.valid) {
+          process.exit(EXIT_CODES.WITNESS_FAILURE);
+        }
+        break;
+      }
+      default:
+        usageError(`Unknown witness-file command: ${subcommand ?? ''}`.trim());
+    }
+  } catch (error) {
+    fail('Error managing witness proof file', error);
+  }
 }
 
 type VerificationMethodType = 'authentication' | 'assertionMethod' | 'keyAgreement' | 'capabilityInvocation' | 'capabilityDelegation';
@@ -462,7 +884,7 @@ function parseOptions(args: string[]): Record<string, string | string[] | undefi
     if (args[i].startsWith('--')) {
       const key = args[i].slice(2);
       if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
-        if (key === 'witness' || key === 'service' || key === 'also-known-as' || key === 'next-key-hash' || key === 'watcher' || key === 'witness-did' || key === 'witness-secret') {
+        if (key === 'witness' || key === 'service' || key === 'also-known-as' || key === 'next-key-hash' || key === 'watcher' || key === 'witness-did' || key === 'witness-secret' || key === 'proofs') {
           options[key] = options[key] || [];
           (options[key] as string[]).push(args[++i]);
         } else if (key === 'add-vm') {
@@ -471,8 +893,7 @@ function parseOptions(args: string[]): Record<string, string | string[] | undefi
           if (isValidVerificationMethodType(value)) {
             (options[key] as VerificationMethodType[]).push(value);
           } else {
-            console.error(`Invalid verification method type: ${value}`);
-            process.exit(1);
+            usageError(`Invalid verification method type: ${value}`);
           }
         } else {
           options[key] = args[++i];
@@ -499,14 +920,16 @@ function parseServices(services: string[]): ServiceEndpoint[] {
 
 // Update the main function to be exported
 export async function main() {
-  const [command, ...args] = process.argv.slice(2);
+  const [command, ...commandArgs] = process.argv.slice(2);
+  jsonMode = commandArgs.includes('--json');
+  const args = commandArgs.filter(arg => arg !== '--json');
   // console.log('Command:', command);
   // console.log('Args:', args);
 
   try {
     switch (command) {
       case 'create':
-        console.log('Handling create command...');
+        info('Handling create command...');
         await handleCreate(args);
         break;
       case 'resolve':
@@ -518,11 +941,26 @@ export async function main() {
       case 'deactivate':
         await handleDeactivate(args);
         break;
+      case 'rotate-keys':
+        await handleRotateKeys(args);
+        break;
+      case 'verify':
+        await handleVerify(args);
+        break;
+      case 'history':
+        await handleHistory(args);
+        break;
+      case 'keys':
+        await handleKeys(args);
+        break;
       case 'generate-witness-proof':
         await handleGenerateWitnessProof(args);
         break;
+      case 'witness-file':
+        await handleWitnessFile(args);
+        break;
       case 'generate-vm':
-        const vm = await generateVerificationMethod('authentication');
+        const vm = await generateEd25519VerificationMethod('authentication');
         const publicKeyMultibase = vm.publicKeyMultibase;
         const did = `did:key:${publicKeyMultibase}`;
         console.log(JSON.stringify({
@@ -535,21 +973,18 @@ export async function main() {
         showHelp();
         break;
       default:
-        console.error('Unknown command:', command);
-        showHelp();
-        process.exit(1);
+        if (!jsonMode) {
+          showHelp();
+        }
+        usageError(`Unknown command: ${command}`);
     }
   } catch (error) {
-    console.error('Error:', error);
-    process.exit(1);
+    fail('Error', error);
   }
 }
 
 // Only run main if this file is being executed directly
 if (process.argv[1] === import.meta.path) {
-  main().catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
+  main().catch(error => fail('Fatal error', error));
 }
 
@@ -1,5 +1,3 @@
-import { createBuffer, bufferToString } from './utils/buffer';
-
 // Helper to safely access environment variables
 const isBrowser = typeof window !== 'undefined';
 
@@ -21,17 +19,5 @@ export const config = {
   isTestEnvironment: getEnvValue('NODE_ENV') === 'test',
   
   // Feature flags
-  logResolves: getEnvValue('LOG_RESOLVES') === 'true',
-  
-  // Get verification methods from env
-  getVerificationMethods: () => {
-    const encoded = getEnvValue('DID_VERIFICATION_METHODS');
-    if (!encoded) return [];
-    try {
-      const decoded = createBuffer(encoded, 'base64');
-      return JSON.parse(bufferToString(decoded));
-    } catch {
-      return [];
-    }
-  }
+  logResolves: getEnvValue('LOG_RESOLVES') === 'true'
 }; 
\ No newline at end of file
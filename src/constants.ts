@@ -1,6 +1,8 @@
 export const PLACEHOLDER = "{SCID}";
 export const METHOD = "webvh";
+export const DEFAULT_TTL = 3600;
 export const BASE_CONTEXT = [
   "https://www.w3.org/ns/did/v1",
   "https://w3id.org/security/multikey/v1"
-];
\ No newline at end of file
+];
+export const JWK_CONTEXT = "https://w3id.org/security/jwk/v1";
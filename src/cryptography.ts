@@ -1,8 +1,50 @@
 import { createDate } from "./utils";
 import { canonicalize } from 'json-canonicalize';
 import { createHash } from './utils/crypto';
-import type { VerificationMethod, SigningInput, SigningOutput, Signer, SignerOptions, Verifier } from './interfaces';
+import type { KeyType, VerificationMethod, SigningInput, SigningOutput, Signer, SignerOptions, Verifier } from './interfaces';
 import { concatBuffers } from './utils/buffer';
+import { decodeMultikey, encodeMultikey, multibaseDecode, multibaseEncode, MultibaseEncoding, MultihashAlgorithm } from './utils/multiformats';
+import { generateKeyPair, generateKeyPairFromSeed, sign as ed25519Sign, verify as ed25519Verify } from '@stablelib/ed25519';
+import { p256, p384 } from '@noble/curves/nist';
+
+const CRYPTOSUITES: Record<KeyType, string> = {
+  'Ed25519': 'eddsa-jcs-2022',
+  'P-256': 'ecdsa-jcs-2019',
+  'P-384': 'ecdsa-jcs-2019'
+};
+
+/**
+ * Gets the Data Integrity cryptosuite used with a key type
+ * @param keyType - The key type
+ * @returns eddsa-jcs-2022 for Ed25519 keys, ecdsa-jcs-2019 for P-256 and P-384 keys
+ */
+export const getCryptosuite = (keyType: KeyType): string => CRYPTOSUITES[keyType];
+
+/**
+ * Gets the key type of a verification method.
+ * The key type is read from did:key identifiers; other verification methods default to Ed25519.
+ * @param verificationMethodId - The verification method ID
+ * @returns The key type
+ */
+export const getKeyTypeForVerificationMethod = (verificationMethodId: string): KeyType => {
+  if (verificationMethodId.startsWith('did:key:')) {
+    try {
+      return decodeMultikey(verificationMethodId.split('did:key:')[1].split('#')[0]).keyType;
+    } catch {
+      // Not a multikey, fall back to the default key type
+    }
+  }
+  return 'Ed25519';
+};
+
+/**
+ * Gets the cryptosuite for proofs made with a verification method.
+ * The key type is read from did:key identifiers; other verification methods default to eddsa-jcs-2022.
+ * @param verificationMethodId - The verification method ID used in the proof
+ * @returns The cryptosuite name
+ */
+export const getCryptosuiteForVerificationMethod = (verificationMethodId: string): string =>
+  getCryptosuite(getKeyTypeForVerificationMethod(verificationMethodId));
 
 /**
  * Creates a proof object for a document
@@ -12,7 +54,7 @@ import { concatBuffers } from './utils/buffer';
 export const createProof = (verificationMethodId: string): any => {
   return {
     type: 'DataIntegrityProof',
-    cryptosuite: 'eddsa-jcs-2022',
+    cryptosuite: getCryptosuiteForVerificationMethod(verificationMethodId),
     verificationMethod: verificationMethodId,
     created: createDate(),
     proofPurpose: 'assertionMethod'
@@ -23,11 +65,13 @@ export const createProof = (verificationMethodId: string): any => {
  * Prepares data for signing by hashing and concatenating the document and proof
  * @param document - The document to sign
  * @param proof - The proof object
+ * @param keyType - The signing key type. P-384 proofs hash with SHA-384, all others with SHA-256
  * @returns The prepared data for signing as a Uint8Array
  */
-export const prepareDataForSigning = async (document: any, proof: any): Promise<Uint8Array> => {
-  const dataHash = await createHash(canonicalize(document));
-  const proofHash = await createHash(canonicalize(proof));
+export const prepareDataForSigning = async (document: any, proof: any, keyType: KeyType = 'Ed25519'): Promise<Uint8Array> => {
+  const algorithm = keyType === 'P-384' ? MultihashAlgorithm.SHA2_384 : MultihashAlgorithm.SHA2_256;
+  const dataHash = await createHash(canonicalize(document), algorithm);
+  const proofHash = await createHash(canonicalize(proof), algorithm);
   return concatBuffers(proofHash, dataHash);
 };
 
@@ -58,8 +102,9 @@ export abstract class AbstractCrypto implements Signer, Verifier {
    * @param signature - The signature to verify
    * @param message - The message to verify
    * @param publicKey - The public key to verify the signature with
+   * @param keyType - The type of the public key
    */
-  abstract verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): Promise<boolean>;
+  abstract verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array, keyType?: KeyType): Promise<boolean>;
 
   /**
    * Get the verification method ID
@@ -75,6 +120,183 @@ export abstract class AbstractCrypto implements Signer, Verifier {
   }
 }
 
+const ECDSA_CURVES = {
+  'P-256': p256,
+  'P-384': p384
+};
+
+type EcdsaKeyType = keyof typeof ECDSA_CURVES;
+
+/**
+ * Generates an Ed25519 Multikey verification method with its secret key
+ * @param purpose - The verification relationship of the key
+ * @returns The verification method with publicKeyMultibase and secretKeyMultibase
+ */
+export const generateEd25519VerificationMethod = async (purpose: VerificationMethod['purpose'] = 'authentication'): Promise<VerificationMethod> => {
+  const keyPair = generateKeyPair();
+  return {
+    type: 'Multikey',
+    publicKeyMultibase: encodeMultikey('Ed25519', keyPair.publicKey),
+    secretKeyMultibase: encodeMultikey('Ed25519', keyPair.secretKey, true),
+    purpose
+  };
+};
+
+/**
+ * Generates a P-256 or P-384 Multikey verification method with its secret key
+ * @param keyType - The curve of the key
+ * @param purpose - The verification relationship of the key
+ * @returns The verification method with a compressed publicKeyMultibase and secretKeyMultibase
+ */
+export const generateEcdsaVerificationMethod = async (keyType: EcdsaKeyType = 'P-256', purpose: VerificationMethod['purpose'] = 'authentication'): Promise<VerificationMethod> => {
+  const curve = ECDSA_CURVES[keyType];
+  const secretKey = curve.utils.randomPrivateKey();
+  return {
+    type: 'Multikey',
+    publicKeyMultibase: encodeMultikey(keyType, curve.getPublicKey(secretKey, true)),
+    secretKeyMultibase: encodeMultikey(keyType, secretKey, true),
+    purpose
+  };
+};
+
+/**
+ * Verifies Ed25519 signatures. Public keys may be passed with or without the 0xed01 multicodec header
+ */
+export class Ed25519Verifier extends AbstractCrypto {
+  constructor(options: SignerOptions = {}) {
+    super(options);
+  }
+
+  async sign(input: SigningInput): Promise<SigningOutput> {
+    throw new Error('Ed25519Verifier cannot sign, use Ed25519Signer instead');
+  }
+
+  async verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array, keyType: KeyType = 'Ed25519'): Promise<boolean> {
+    if (keyType !== 'Ed25519') {
+      return false;
+    }
+    const key = publicKey.length === 34 && publicKey[0] === 0xed && publicKey[1] === 0x01 ? publicKey.slice(2) : publicKey;
+    try {
+      return ed25519Verify(key, message, signature);
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Signs eddsa-jcs-2022 proofs with the secretKeyMultibase of a verification method.
+ * The secret key is 0x8026 multicodec encoded and may hold the 32 byte seed or the 64 byte secret key.
+ */
+export class Ed25519Signer extends Ed25519Verifier {
+  private secretKey: Uint8Array;
+
+  constructor(options: SignerOptions) {
+    super(options);
+    if (!options.verificationMethod?.secretKeyMultibase) {
+      throw new Error('Ed25519Signer requires a verification method with secretKeyMultibase');
+    }
+    const { bytes } = multibaseDecode(options.verificationMethod.secretKeyMultibase);
+    if (bytes[0] !== 0x80 || bytes[1] !== 0x26) {
+      throw new Error(`secretKeyMultibase doesn't include ed25519-priv header (0x8026)`);
+    }
+    const key = bytes.slice(2);
+    if (key.length === 32) {
+      this.secretKey = generateKeyPairFromSeed(key).secretKey;
+    } else if (key.length === 64) {
+      this.secretKey = key;
+    } else {
+      throw new Error(`Invalid Ed25519 secret key length ${key.length}`);
+    }
+    // Only the decoded key is kept, the verification method is public
+    const { secretKeyMultibase, ...verificationMethod } = options.verificationMethod;
+    this.verificationMethod = verificationMethod;
+  }
+
+  async sign(input: SigningInput): Promise<SigningOutput> {
+    const signature = ed25519Sign(this.secretKey, await prepareDataForSigning(input.document, input.proof));
+    return { proofValue: multibaseEncode(signature, MultibaseEncoding.BASE58_BTC) };
+  }
+}
+
+/**
+ * Verifies P-256 and P-384 ECDSA signatures in the compact (r || s) format used by ecdsa-jcs-2019.
+ * Without a key type the curve is taken from the length of the compressed public key.
+ */
+export class EcdsaVerifier extends AbstractCrypto {
+  constructor(options: SignerOptions = {}) {
+    super(options);
+  }
+
+  async sign(input: SigningInput): Promise<SigningOutput> {
+    throw new Error('EcdsaVerifier cannot sign, use EcdsaSigner instead');
+  }
+
+  async verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array, keyType?: KeyType): Promise<boolean> {
+    const type = keyType ?? (publicKey.length === 33 ? 'P-256' : publicKey.length === 49 ? 'P-384' : undefined);
+    if (type !== 'P-256' && type !== 'P-384') {
+      return false;
+    }
+    try {
+      // Accept high-S signatures, which some HSMs produce
+      return ECDSA_CURVES[type].verify(signature, message, publicKey, { prehash: true, lowS: false });
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Signs ecdsa-jcs-2019 proofs with a P-256 (0x8626) or P-384 (0x8726) secretKeyMultibase
+ */
+export class EcdsaSigner extends EcdsaVerifier {
+  private secretKey: Uint8Array;
+  private keyType: EcdsaKeyType;
+
+  constructor(options: SignerOptions) {
+    super(options);
+    if (!options.verificationMethod?.secretKeyMultibase) {
+      throw new Error('EcdsaSigner requires a verification method with secretKeyMultibase');
+    }
+    const { keyType, key, secret } = decodeMultikey(options.verificationMethod.secretKeyMultibase);
+    if (!secret || (keyType !== 'P-256' && keyType !== 'P-384')) {
+      throw new Error(`secretKeyMultibase isn't a P-256 or P-384 secret key`);
+    }
+    this.secretKey = key;
+    this.keyType = keyType;
+    const { secretKeyMultibase, ...verificationMethod } = options.verificationMethod;
+    this.verificationMethod = verificationMethod;
+  }
+
+  async sign(input: SigningInput): Promise<SigningOutput> {
+    const message = await prepareDataForSigning(input.document, input.proof, this.keyType);
+    const signature = ECDSA_CURVES[this.keyType].sign(message, this.secretKey, { prehash: true }).toCompactRawBytes();
+    return { proofValue: multibaseEncode(signature, MultibaseEncoding.BASE58_BTC) };
+  }
+}
+
+/**
+ * Verifies signatures of every supported key type, e.g. for logs mixing Ed25519 and P-256 keys
+ */
+export class MultikeyVerifier extends AbstractCrypto {
+  private ed25519 = new Ed25519Verifier();
+  private ecdsa = new EcdsaVerifier();
+
+  constructor(options: SignerOptions = {}) {
+    super(options);
+  }
+
+  async sign(input: SigningInput): Promise<SigningOutput> {
+    throw new Error('MultikeyVerifier cannot sign');
+  }
+
+  async verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array, keyType: KeyType = 'Ed25519'): Promise<boolean> {
+    return keyType === 'Ed25519'
+      ? this.ed25519.verify(signature, message, publicKey, keyType)
+      : this.ecdsa.verify(signature, message, publicKey, keyType);
+  }
+}
+
 /**
  * Creates a document signer from any Signer implementation
  * @param signer - The signer to use
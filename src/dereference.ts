@@ -0,0 +1,137 @@
+import { resolveDID } from './method';
+import { defaultLogFetcher } from './fetcher';
+import { findVerificationMethod } from './utils';
+import type { DIDDoc, DIDResolutionMeta, ResolutionOptions, ServiceEndpoint, VerificationMethod, WitnessProofFileEntry } from './interfaces';
+import { createErrorMeta, InvalidDIDURLError, NotFoundError } from './errors';
+
+export interface ParsedDIDURL {
+  did: string;
+  path?: string;
+  query: Record<string, string>;
+  fragment?: string;
+}
+
+/**
+ * Splits a DID URL into the DID, path, query parameters and fragment
+ * @param didUrl - The DID URL, e.g. `did:webvh:{SCID}:example.com/path/file.json?versionId=1-Qm...#key-1`
+ * @returns The parsed DID URL
+ */
+export const parseDIDURL = (didUrl: string): ParsedDIDURL => {
+  let rest = didUrl;
+  let fragment: string | undefined;
+  const hashIndex = rest.indexOf('#');
+  if (hashIndex !== -1) {
+    fragment = rest.slice(hashIndex + 1);
+    rest = rest.slice(0, hashIndex);
+  }
+
+  const query: Record<string, string> = {};
+  const queryIndex = rest.indexOf('?');
+  if (queryIndex !== -1) {
+    for (const [key, value] of new URLSearchParams(rest.slice(queryIndex + 1))) {
+      query[key] = value;
+    }
+    rest = rest.slice(0, queryIndex);
+  }
+
+  let path: string | undefined;
+  const pathIndex = rest.indexOf('/');
+  if (pathIndex !== -1) {
+    path = rest.slice(pathIndex + 1);
+    rest = rest.slice(0, pathIndex);
+  }
+
+  if (!rest.startsWith('did:webvh:') || rest.split(':').length < 4) {
+    throw new InvalidDIDURLError(`${didUrl} is not a valid did:webvh DID URL`);
+  }
+  // Encoded separators would let a segment turn into several once the #files URL is decoded
+  if (path !== undefined && path.split('/').some(segment => segment === '' || segment === '.' || segment === '..' || /%(2f|5c)/i.test(segment))) {
+    throw new InvalidDIDURLError(`Invalid path '${path}' in DID URL ${didUrl}`);
+  }
+
+  return { did: rest, path, query, fragment };
+};
+
+const getVersionOptions = (query: Record<string, string>): Pick<ResolutionOptions, 'versionId' | 'versionTime' | 'versionNumber'> => {
+  const options: Pick<ResolutionOptions, 'versionId' | 'versionTime' | 'versionNumber'> = {};
+  if (query.versionId !== undefined) {
+    options.versionId = query.versionId;
+  }
+  if (query.versionTime !== undefined) {
+    const versionTime = new Date(query.versionTime);
+    if (isNaN(versionTime.getTime())) {
+      throw new InvalidDIDURLError(`Invalid versionTime '${query.versionTime}'`);
+    }
+    options.versionTime = versionTime;
+  }
+  if (query.versionNumber !== undefined) {
+    const versionNumber = Number(query.versionNumber);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      throw new InvalidDIDURLError(`Invalid versionNumber '${query.versionNumber}'`);
+    }
+    options.versionNumber = versionNumber;
+  }
+  return options;
+};
+
+const findService = (doc: DIDDoc, did: string, id: string): ServiceEndpoint | undefined => {
+  return doc.service?.find(service => service.id === `#${id}` || service.id === `${did}#${id}`);
+};
+
+/**
+ * Dereferences a did:webvh DID URL
+ * - no path or fragment: the DID document
+ * - `#fragment`: the verification method or service with that id
+ * - a path: the file published under the `#files` service, or the `#whois` presentation for `/whois`
+ * The `versionId`, `versionTime` and `versionNumber` query parameters select the DID document version used.
+ * @param didUrl - The DID URL to dereference
+ * @param options - Resolution options used when resolving the DID
+ * @returns The dereferenced content, its content type and the DID resolution metadata
+ */
+export const dereferenceDIDURL = async (didUrl: string, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[] } = {}): Promise<{
+  did: string;
+  content: DIDDoc | VerificationMethod | ServiceEndpoint | string | null;
+  contentType?: string;
+  meta: DIDResolutionMeta | Pick<DIDResolutionMeta, 'error' | 'problemDetails'>;
+}> => {
+  let did = didUrl;
+  try {
+    const parsed = parseDIDURL(didUrl);
+    did = parsed.did;
+
+    const { doc, meta } = await resolveDID(did, { ...options, ...getVersionOptions(parsed.query) });
+    if (!doc) {
+      return { did, content: null, meta };
+    }
+
+    if (parsed.path !== undefined) {
+      const service = parsed.path === 'whois' ? findService(doc, did, 'whois') : findService(doc, did, 'files');
+      if (!service || typeof service.serviceEndpoint !== 'string') {
+        throw new NotFoundError(`No ${parsed.path === 'whois' ? '#whois' : '#files'} service found for ${did}`);
+      }
+      const endpoint = service.serviceEndpoint.replace(/\/$/, '');
+      const url = parsed.path === 'whois' ? endpoint : `${endpoint}/${parsed.path}`;
+      const content = await (options.fetcher ?? defaultLogFetcher).fetch(url);
+      if (content === null) {
+        throw new NotFoundError(`${parsed.path} not found for ${did}`);
+      }
+      return { did, content, meta };
+    }
+
+    if (parsed.fragment !== undefined) {
+      const content = findVerificationMethod(doc, `${did}#${parsed.fragment}`) ?? findService(doc, did, parsed.fragment);
+      if (!content) {
+        throw new NotFoundError(`#${parsed.fragment} not found in ${did}`);
+      }
+      return { did, content, contentType: 'application/json', meta };
+    }
+
+    return { did, content: doc, contentType: 'application/did+ld+json', meta };
+  } catch (e: any) {
+    return {
+      did,
+      content: null,
+      meta: createErrorMeta(e)
+    };
+  }
+};
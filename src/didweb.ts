@@ -0,0 +1,99 @@
+import { canonicalize } from 'json-canonicalize';
+import { resolveDID } from './method';
+import { addDefaultServices, deepClone, getFileUrl } from './utils';
+import { PLACEHOLDER } from './constants';
+import type { DIDDoc, ResolutionOptions, WitnessProofFileEntry } from './interfaces';
+import { createErrorMeta, InvalidDIDError, NotFoundError } from './errors';
+import { defaultLogFetcher } from './fetcher';
+
+/**
+ * Derives the parallel did:web DID for a did:webvh DID
+ * @param did - The did:webvh DID
+ * @returns The did:web DID sharing the same domain and path
+ */
+export const getDIDWebIdentifier = (did: string): string => {
+  const parts = did.split(':');
+  if (!did.startsWith('did:webvh:') || parts.length < 4) {
+    throw new Error(`${did} is not a valid did:webvh identifier`);
+  }
+  return `did:web:${parts.slice(3).join(':')}`;
+};
+
+/**
+ * Gets the URL of the did.json file for a did:web DID
+ * @param did - The did:web DID
+ * @returns The URL the did:web DID document is published at
+ */
+export const getDIDWebUrl = (did: string): string => {
+  if (!did.startsWith('did:web:') || did.split(':').length < 3) {
+    throw new Error(`${did} is not a valid did:web identifier`);
+  }
+  return getFileUrl(did.replace(/^did:web:/, `did:webvh:${PLACEHOLDER}:`)).replace(/did\.jsonl$/, 'did.json');
+};
+
+/**
+ * Creates the did:web DID document that a did:webvh controller publishes alongside the DID log
+ * @param doc - The did:webvh DID document
+ * @returns The did:web DID document, linked back to the did:webvh DID through alsoKnownAs
+ */
+export const createDIDWebDoc = (doc: DIDDoc): DIDDoc => {
+  if (!doc.id) {
+    throw new Error('DID document has no id');
+  }
+  const webvhDid = doc.id;
+  const webDid = getDIDWebIdentifier(webvhDid);
+  const scid = webvhDid.split(':')[2];
+
+  const withServices = addDefaultServices(deepClone(doc));
+  const webDoc: DIDDoc = JSON.parse(JSON.stringify(withServices).replaceAll(`did:webvh:${scid}:`, 'did:web:'));
+
+  const alsoKnownAs = (webDoc.alsoKnownAs ?? []).filter(alias => alias !== webDid && alias !== webvhDid);
+  webDoc.alsoKnownAs = [...alsoKnownAs, webvhDid];
+
+  return webDoc;
+};
+
+/**
+ * Resolves a did:web DID published in parallel to a did:webvh DID, checking that the
+ * did.json document matches the did:web document derived from the verified DID log
+ * @param did - The did:web DID
+ * @param options - Resolution options used when resolving the did:webvh DID
+ * @returns The did:web DID document, the did:webvh resolution metadata and the did:webvh DID
+ */
+export const resolveDIDWeb = async (did: string, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[] } = {}) => {
+  try {
+    const url = getDIDWebUrl(did);
+    const text = await (options.fetcher ?? defaultLogFetcher).fetch(url);
+    if (text === null) {
+      throw new NotFoundError(`did:web document not found for ${did}`);
+    }
+    const webDoc: DIDDoc = JSON.parse(text);
+    if (webDoc.id !== did) {
+      throw new InvalidDIDError(`did:web document id '${webDoc.id}' doesn't match '${did}'`);
+    }
+
+    const webvhDid = webDoc.alsoKnownAs?.find(alias => alias.startsWith('did:webvh:') && getDIDWebIdentifier(alias) === did);
+    if (!webvhDid) {
+      throw new InvalidDIDError(`did:web document for ${did} doesn't reference a did:webvh DID in alsoKnownAs`);
+    }
+
+    const resolved = await resolveDID(webvhDid, options);
+    if (!resolved.doc) {
+      return { ...resolved, did, webvhDid };
+    }
+
+    const expected = createDIDWebDoc(resolved.doc);
+    if (canonicalize(expected) !== canonicalize(webDoc)) {
+      throw new InvalidDIDError(`did:web document for ${did} doesn't match the did:webvh document for ${webvhDid}`);
+    }
+
+    return { did, doc: webDoc, meta: resolved.meta, controlled: resolved.controlled, webvhDid };
+  } catch (e: any) {
+    return {
+      did,
+      doc: null,
+      meta: createErrorMeta(e),
+      controlled: false
+    };
+  }
+};
@@ -0,0 +1,217 @@
+import type { DIDResolutionMeta, ProblemDetails } from './interfaces';
+
+export type DIDResolutionErrorCode = NonNullable<DIDResolutionMeta['error']>;
+
+export interface DIDResolutionErrorOptions {
+  code?: DIDResolutionErrorCode;
+  type?: string;
+  title?: string;
+  versionId?: string;
+}
+
+const SECURITY_VOCAB = 'https://w3id.org/security#';
+
+/**
+ * Base class for errors raised while resolving a DID
+ * Carries the DID Resolution error code, problem details and the versionId of the failing log entry
+ */
+export class DIDResolutionError extends Error {
+  code: DIDResolutionErrorCode;
+  type: string;
+  title: string;
+  versionId?: string;
+
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message);
+    this.name = 'DIDResolutionError';
+    this.code = options.code ?? 'INVALID_DID';
+    this.type = options.type ?? `${SECURITY_VOCAB}INVALID_CONTROLLED_IDENTIFIER_DOCUMENT_ID`;
+    this.title = options.title ?? 'The resolved DID is invalid.';
+    this.versionId = options.versionId;
+  }
+
+  /**
+   * Converts the error into problem details for the DID resolution metadata
+   * @returns The problem details, including the failing versionId when known
+   */
+  toProblemDetails(): ProblemDetails {
+    return {
+      type: this.type,
+      title: this.title,
+      detail: this.message,
+      ...(this.versionId ? { versionId: this.versionId } : {})
+    };
+  }
+}
+
+export class NotFoundError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      code: 'NOT_FOUND',
+      type: `${SECURITY_VOCAB}NOT_FOUND`,
+      title: 'The DID Log or resource was not found.',
+      ...options
+    });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class InvalidDIDError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, options);
+    this.name = 'InvalidDIDError';
+  }
+}
+
+export class InvalidDIDURLError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      code: 'INVALID_DID_URL',
+      title: 'The DID URL is invalid.',
+      ...options
+    });
+    this.name = 'InvalidDIDURLError';
+  }
+}
+
+export class InvalidOptionsError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      code: 'INVALID_OPTIONS',
+      title: 'The resolution options are invalid.',
+      ...options
+    });
+    this.name = 'InvalidOptionsError';
+  }
+}
+
+export class HashChainError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      type: `${SECURITY_VOCAB}INVALID_CONTROLLED_IDENTIFIER_DOCUMENT`,
+      title: 'The DID Log hash chain is broken.',
+      ...options
+    });
+    this.name = 'HashChainError';
+  }
+}
+
+export class HistoryRewriteError extends HashChainError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      title: 'The DID Log history was rewritten.',
+      ...options
+    });
+    this.name = 'HistoryRewriteError';
+  }
+}
+
+export class LegacyEntryHashError extends HashChainError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      title: 'The DID Log uses legacy entry hashes.',
+      ...options
+    });
+    this.name = 'LegacyEntryHashError';
+  }
+}
+
+export class SCIDMismatchError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      title: 'The SCID is not derived from the first DID Log entry.',
+      ...options
+    });
+    this.name = 'SCIDMismatchError';
+  }
+}
+
+export class InvalidProofError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      type: `${SECURITY_VOCAB}PROOF_VERIFICATION_ERROR`,
+      title: 'A DID Log entry proof failed verification.',
+      ...options
+    });
+    this.name = 'InvalidProofError';
+  }
+}
+
+export class UnauthorizedKeyError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      type: `${SECURITY_VOCAB}INVALID_VERIFICATION_METHOD`,
+      title: 'A DID Log entry was signed by an unauthorized key.',
+      ...options
+    });
+    this.name = 'UnauthorizedKeyError';
+  }
+}
+
+export class WitnessError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      type: `${SECURITY_VOCAB}PROOF_VERIFICATION_ERROR`,
+      title: 'A witness proof is invalid.',
+      ...options
+    });
+    this.name = 'WitnessError';
+  }
+}
+
+export class WitnessThresholdError extends WitnessError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      title: 'The witness threshold was not met.',
+      ...options
+    });
+    this.name = 'WitnessThresholdError';
+  }
+}
+
+export class WitnessConflictError extends WitnessError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      title: 'The witness already approved a different entry at this version.',
+      ...options
+    });
+    this.name = 'WitnessConflictError';
+  }
+}
+
+export class PortabilityError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      title: 'The DID was moved but is not portable.',
+      ...options
+    });
+    this.name = 'PortabilityError';
+  }
+}
+
+export class TimestampError extends DIDResolutionError {
+  constructor(message: string, options: DIDResolutionErrorOptions = {}) {
+    super(message, {
+      type: `${SECURITY_VOCAB}INVALID_CONTROLLED_IDENTIFIER_DOCUMENT`,
+      title: 'A DID Log entry has an invalid timestamp.',
+      ...options
+    });
+    this.name = 'TimestampError';
+  }
+}
+
+/**
+ * Builds the error fields of the DID resolution metadata from a thrown error
+ * Errors that aren't a DIDResolutionError are reported as an invalid DID
+ * @param error - The error thrown during resolution
+ * @returns The error code and problem details
+ */
+export const createErrorMeta = (error: unknown): Pick<DIDResolutionMeta, 'error' | 'problemDetails'> => {
+  const resolutionError = error instanceof DIDResolutionError
+    ? error
+    : new InvalidDIDError(error instanceof Error ? error.message : String(error));
+  return {
+    error: resolutionError.code,
+    problemDetails: resolutionError.toProblemDetails()
+  };
+};
@@ -0,0 +1,131 @@
+import { getFS } from './utils';
+import type { LogFetcher, LogFetchResult } from './interfaces';
+
+export interface HttpLogFetcherOptions {
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for a response before aborting. Defaults to 10000 */
+  timeout?: number;
+  /** Times to retry after a network error or 5xx response. Defaults to 0 */
+  retries?: number;
+  /** The fetch implementation to use. Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Fetches DID logs and related files over HTTP(S)
+ */
+export class HttpLogFetcher implements LogFetcher {
+  private headers: Record<string, string>;
+  private timeout: number;
+  private retries: number;
+  private fetchImpl?: typeof fetch;
+
+  constructor(options: HttpLogFetcherOptions = {}) {
+    this.headers = options.headers ?? {};
+    this.timeout = options.timeout ?? 10000;
+    this.retries = options.retries ?? 0;
+    this.fetchImpl = options.fetch;
+  }
+
+  async fetch(url: string): Promise<string | null> {
+    return (await this.fetchIfModified(url)).content;
+  }
+
+  async fetchIfModified(url: string, etag?: string): Promise<LogFetchResult> {
+    const headers = etag ? { ...this.headers, 'If-None-Match': etag } : this.headers;
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeout);
+      try {
+        // Read the global lazily so it can be swapped after the fetcher is created
+        const response = await (this.fetchImpl ?? fetch)(url, { headers, signal: controller.signal });
+        if (response.status === 304) {
+          return { content: null, etag, notModified: true };
+        }
+        if (response.status === 404) {
+          return { content: null };
+        }
+        if (!response.ok) {
+          lastError = new Error(`HTTP error! status: ${response.status}`);
+          if (response.status < 500) {
+            break;
+          }
+          continue;
+        }
+        return { content: await response.text(), etag: response.headers.get('ETag') ?? undefined };
+      } catch (error) {
+        lastError = controller.signal.aborted
+          ? new Error(`Request to ${url} timed out after ${this.timeout}ms`)
+          : error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Reads DID logs and related files from a directory laid out like the web server,
+ * e.g. `https://example.com/dids/alice/did.jsonl` is read from `<root>/example.com/dids/alice/did.jsonl`
+ */
+export class FileSystemLogFetcher implements LogFetcher {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root.replace(/\/+$/, '');
+  }
+
+  async fetch(url: string): Promise<string | null> {
+    const { host, pathname } = new URL(url);
+    // Each segment is decoded on its own, so an encoded separator can't add path segments
+    const segments = [host, ...pathname.split('/').filter(segment => segment !== '').map(decodeURIComponent)];
+    const resolved: string[] = [];
+    for (const segment of segments) {
+      if (/[\/\\\0]/.test(segment)) {
+        throw new Error(`Invalid path in ${url}`);
+      }
+      if (segment === '..' && resolved.length <= 1) {
+        throw new Error(`${url} is outside of ${this.root}/${host}`);
+      }
+      if (segment === '..') {
+        resolved.pop();
+      } else if (segment !== '.') {
+        resolved.push(segment);
+      }
+    }
+    const path = `${this.root}/${resolved.join('/')}`;
+    const fs = await getFS();
+    if (!fs.existsSync(path)) {
+      return null;
+    }
+    return fs.readFileSync(path, 'utf8');
+  }
+}
+
+/**
+ * Serves DID logs and related files from memory, keyed by URL
+ */
+export class MemoryLogFetcher implements LogFetcher {
+  private files: Map<string, string>;
+
+  constructor(files: Record<string, string> = {}) {
+    this.files = new Map(Object.entries(files));
+  }
+
+  set(url: string, content: string) {
+    this.files.set(url, content);
+  }
+
+  delete(url: string) {
+    this.files.delete(url);
+  }
+
+  async fetch(url: string): Promise<string | null> {
+    return this.files.get(url) ?? null;
+  }
+}
+
+export const defaultLogFetcher: LogFetcher = new HttpLogFetcher();
@@ -1,4 +1,19 @@
-export { resolveDID, resolveDIDFromLog, createDID, updateDID, deactivateDID } from './method';
-export { createDocumentSigner, prepareDataForSigning, createProof, createSigner, AbstractCrypto } from './cryptography';
+export { resolveDID, resolveDIDFromLog, createDID, updateDID, deactivateDID, rotateUpdateKeys, verifyLog } from './method';
+export { createDocumentSigner, prepareDataForSigning, createProof, createSigner, AbstractCrypto, Ed25519Signer, Ed25519Verifier, generateEd25519VerificationMethod, EcdsaSigner, EcdsaVerifier, MultikeyVerifier, generateEcdsaVerificationMethod, getCryptosuite } from './cryptography';
+export { dereferenceDIDURL, parseDIDURL } from './dereference';
+export type { ParsedDIDURL } from './dereference';
+export { createWhoisPresentation, verifyWhoisPresentation, fetchWhois } from './whois';
+export type { WhoisPresentation, CreateWhoisPresentationOptions } from './whois';
+export { createDIDWebDoc, getDIDWebIdentifier, getDIDWebUrl, resolveDIDWeb } from './didweb';
+export * from './errors';
+export { HttpLogFetcher, FileSystemLogFetcher, MemoryLogFetcher, defaultLogFetcher } from './fetcher';
+export type { HttpLogFetcherOptions } from './fetcher';
+export { MemoryResolutionCache } from './cache';
+export { Keystore, DEFAULT_KEYSTORE_DIR, DEFAULT_SCRYPT_N, MAX_SCRYPT_N } from './keystore';
+export type { KeystoreOptions, KeyFile, StoredKey, EncryptedSecretKey } from './keystore';
+export { mergeWitnessProofs, pruneWitnessProofs, validateWitnessProofs } from './witness';
+export { WitnessService, MemoryWitnessRecordStore, FileSystemWitnessRecordStore, createWitnessHandler } from './witness-service';
+export type { WitnessServiceOptions, WitnessRequest } from './witness-service';
 export * from './interfaces';
-export { multibaseEncode, multibaseDecode, MultibaseEncoding } from './utils/multiformats';
+export { multibaseEncode, multibaseDecode, MultibaseEncoding, MultihashAlgorithm, encodeMultikey, decodeMultikey } from './utils/multiformats';
+export { jwkToMultikey, multikeyToJwk, createJwkThumbprint, getPublicKeyMultibase, isJsonWebKeyVerificationMethod } from './utils/jwk';
@@ -1,3 +1,5 @@
+import type { MultihashAlgorithm } from "./utils/multiformats";
+
 export interface SigningInput {
   document: any;
   proof: any;
@@ -12,8 +14,13 @@ export interface Signer {
   getVerificationMethodId(): string;
 }
 
+export type KeyType = 'Ed25519' | 'P-256' | 'P-384';
+
 export interface Verifier {
-  verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): Promise<boolean>;
+  /**
+   * @param keyType - The type of the public key, as read from its multicodec header. Ed25519 when omitted
+   */
+  verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array, keyType?: KeyType): Promise<boolean>;
 }
 
 export interface SignerOptions {
@@ -25,6 +32,7 @@ export interface ProblemDetails {
   type: string;
   title: string;
   detail: string;
+  versionId?: string;
 }
 
 export interface DIDResolutionMeta {
@@ -40,6 +48,7 @@ export interface DIDResolutionMeta {
   deactivated: boolean;
   witness?: WitnessParameterResolution;
   watchers?: string[] | null;
+  ttl?: number;
   error?: 'NOT_FOUND' | 'INVALID_DID' | 'INVALID_DID_URL' | 'INVALID_OPTIONS' | 'REPRESENTATION_NOT_SUPPORTED' | 'METHOD_NOT_SUPPORTED' | 'UNSUPPORTED_PUBLIC_KEY_TYPE' | 'INVALID_DID_DOCUMENT' | 'INVALID_PUBLIC_KEY' | 'INVALID_PUBLIC_KEY_LENGTH' | 'INVALID_PUBLIC_KEY_TYPE' | 'INTERNAL_ERROR';
   problemDetails?: ProblemDetails;
   latestVersionId?: string;
@@ -55,10 +64,19 @@ export interface DIDDoc {
   keyAgreement?: string[];
   capabilityInvocation?: string[];
   capabilityDelegation?: string[];
-  verificationMethod?: VerificationMethod[];
+  verificationMethod?: AnyVerificationMethod[];
   service?: ServiceEndpoint[];
 }
 
+export interface PublicKeyJwk {
+  kty: 'OKP' | 'EC' | string;
+  crv: string;
+  x: string;
+  y?: string;
+  kid?: string;
+  [key: string]: any;
+}
+
 export interface VerificationMethod {
   id?: string;
   type: string;
@@ -66,12 +84,25 @@ export interface VerificationMethod {
   publicKeyMultibase: string;
   secretKeyMultibase?: string;
   purpose?: 'authentication' | 'assertionMethod' | 'keyAgreement' | 'capabilityInvocation' | 'capabilityDelegation';
+  /** @deprecated Use a JsonWebKeyVerificationMethod */
   publicKeyJWK?: any;
   use?: string;
 }
 
+export interface JsonWebKeyVerificationMethod {
+  id?: string;
+  type: 'JsonWebKey';
+  controller?: string;
+  publicKeyJwk: PublicKeyJwk;
+  purpose?: VerificationMethod['purpose'];
+  use?: string;
+}
+
+/** A verification method of a DID document, with a Multikey or a JWK public key */
+export type AnyVerificationMethod = VerificationMethod | JsonWebKeyVerificationMethod;
+
 export interface WitnessEntry {
-  id: string;  // did:key DID
+  id: string;  // did:key or did:webvh DID
 }
 
 export interface WitnessParameter {
@@ -105,6 +136,7 @@ export interface DIDLogEntry {
     portable?: boolean;
     witness?: WitnessParameter;
     watchers?: string[] | null;
+    ttl?: number;
     deactivated?: boolean;
   };
   state: DIDDoc;
@@ -123,7 +155,7 @@ export interface CreateDIDInterface {
   domain: string;
   signer: Signer;
   updateKeys: string[];
-  verificationMethods: VerificationMethod[];
+  verificationMethods: AnyVerificationMethod[];
   paths?: string[];
   controller?: string;
   context?: string | string[] | object | object[];
@@ -132,11 +164,15 @@ export interface CreateDIDInterface {
   nextKeyHashes?: string[];
   witness?: WitnessParameter | null;
   watchers?: string[] | null;
+  ttl?: number;
   created?: string;
+  /** The hash algorithm for the SCID and entry hashes; later entries keep using it. Defaults to SHA2-256 */
+  hashAlgorithm?: MultihashAlgorithm;
   verifier?: Verifier;
   authentication?: string[];
   assertionMethod?: string[];
   keyAgreement?: string[];
+  didWeb?: boolean;
 }
 
 export interface SignDIDDocInterface {
@@ -149,25 +185,46 @@ export interface UpdateDIDInterface {
   log: DIDLog;
   signer: Signer;
   updateKeys?: string[];
-  verificationMethods?: VerificationMethod[];
+  verificationMethods?: AnyVerificationMethod[];
   controller?: string;
   context?: string | string[] | object | object[];
   alsoKnownAs?: string[];
   portable?: boolean;
   nextKeyHashes?: string[];
+  /** Defaults to the current witnesses. A change, including null to stop witnessing, must be approved by the current witnesses */
   witness?: WitnessParameter | null;
   watchers?: string[] | null;
+  ttl?: number;
   verifier?: Verifier;
   authentication?: string[];
   assertionMethod?: string[];
   keyAgreement?: string[];
   witnessProofs?: WitnessProofFileEntry[];
+  didWeb?: boolean;
+  /** Accept a log with entry hashes written by releases up to 2.5.4. See ResolutionOptions */
+  allowLegacyEntryHash?: boolean;
+}
+
+export interface RotateUpdateKeysInterface {
+  log: DIDLog;
+  signer: Signer;
+  /** The keys authorized from the new entry on. Must match the committed nextKeyHashes when pre-rotation is active */
+  newUpdateKeys: string[];
+  /** The public keys to commit to for the following rotation. Their hashes become the nextKeyHashes */
+  nextUpdateKeys?: string[];
+  verifier?: Verifier;
+  witnessProofs?: WitnessProofFileEntry[];
+  updated?: string;
+  /** Accept a log with entry hashes written by releases up to 2.5.4. See ResolutionOptions */
+  allowLegacyEntryHash?: boolean;
 }
 
 export interface DeactivateDIDInterface {
   log: DIDLog;
   signer: Signer;
   verifier?: Verifier;
+  /** Accept a log with entry hashes written by releases up to 2.5.4. See ResolutionOptions */
+  allowLegacyEntryHash?: boolean;
 }
 
 export interface ResolutionOptions {
@@ -177,9 +234,187 @@ export interface ResolutionOptions {
   verificationMethod?: string;
   verifier?: Verifier;
   scid?: string;
+  /**
+   * Opt out of full verification. When true, proofs, the hash chain and pre-rotation are only
+   * checked for the first entry and the last 10 entries, so a log with forged entries in
+   * between can still resolve. Defaults to false.
+   */
+  fastResolve?: boolean;
+  /**
+   * How far, in seconds, a versionTime may lie ahead of the resolver's clock before the
+   * entry is rejected. Defaults to 300.
+   */
+  maxClockSkew?: number;
+  /**
+   * Retrieves the DID log, witness proofs and other DID files. Defaults to an HttpLogFetcher.
+   */
+  fetcher?: LogFetcher;
+  /**
+   * Stores the last verified resolution of each DID, so later resolutions only verify the
+   * entries appended since. Only used when resolving the latest version of a DID.
+   */
+  cache?: ResolutionCache;
+  /**
+   * Accept entry hashes calculated over the SCID placeholder instead of the previous versionId,
+   * as written by releases up to 2.5.4. Such entries don't commit to the entry before them, so
+   * they're rejected with a LegacyEntryHashError unless this is true. Defaults to false.
+   */
+  allowLegacyEntryHash?: boolean;
+  /**
+   * DIDs hosted by this server, which resolveDID reads from their local log files instead of
+   * fetching them and never caches. A server can list its DIDs with Keystore.getActiveDIDs.
+   */
+  controlledDIDs?: string[];
+}
+
+export interface LogFetcher {
+  /**
+   * Retrieves the file published at a URL
+   * @param url - The URL of the file, e.g. the did.jsonl URL of a DID
+   * @returns The file contents, or null if the file doesn't exist
+   */
+  fetch(url: string): Promise<string | null>;
+  /**
+   * Retrieves the file published at a URL unless it still matches a previously seen ETag
+   * @param url - The URL of the file
+   * @param etag - The ETag returned by the last fetch of the file
+   * @returns The file contents and ETag, or notModified when the file hasn't changed
+   */
+  fetchIfModified?(url: string, etag?: string): Promise<LogFetchResult>;
+}
+
+export interface LogFetchResult {
+  content: string | null;
+  etag?: string;
+  notModified?: boolean;
+}
+
+export interface CachedResolution {
+  did: string;
+  doc: any;
+  meta: DIDResolutionMeta;
+  /** The hash of the last verified log entry, used to detect history rewrites */
+  lastEntryHash: string;
+  /** The versionIds of the verified log entries, in order, used to detect history rewrites */
+  versionIds: string[];
+  etag?: string;
+  /** When the cached resolution goes stale (ms since the epoch), based on the DID's ttl */
+  expires?: number;
+}
+
+export interface ResolutionCache {
+  get(did: string): Promise<CachedResolution | undefined>;
+  set(did: string, resolution: CachedResolution): Promise<void>;
+  delete(did: string): Promise<void>;
 }
 
 export interface WitnessProofFileEntry {
   versionId: string;
   proof: DataIntegrityProof[];
-} 
\ No newline at end of file
+}
+
+/**
+ * Remembers the versionId a witness approved at each version number of a DID
+ */
+export interface WitnessRecordStore {
+  get(scid: string, versionNumber: number): Promise<string | undefined>;
+  set(scid: string, versionNumber: number, versionId: string): Promise<void>;
+}
+
+export interface VerifyLogOptions {
+  verifier?: Verifier;
+  fetcher?: LogFetcher;
+  /** The did-witness.json entries. Fetched from the DID's host when witnesses are configured and none are given */
+  witnessProofs?: WitnessProofFileEntry[];
+  maxClockSkew?: number;
+  /** Accept entry hashes written by releases up to 2.5.4. See ResolutionOptions */
+  allowLegacyEntryHash?: boolean;
+  /** The did:webvh DIDs being resolved that led to this verification, which can't be used to resolve a witness key */
+  resolving?: string[];
+}
+
+export interface LogCheckResult {
+  valid: boolean;
+  /** The error code, when the check failed with a DIDResolutionError */
+  code?: string;
+  error?: string;
+}
+
+export interface LogProofReport extends LogCheckResult {
+  /** The update keys the entry had to be signed with */
+  authorizedKeys: string[];
+  signers: { verificationMethod: string; cryptosuite: string; created?: string }[];
+}
+
+export interface LogWitnessReport extends LogCheckResult {
+  threshold: number;
+  approvals: number;
+  /** The witnesses with a valid proof for this version or a later one */
+  approvedBy: string[];
+}
+
+export interface LogEntryReport {
+  versionId: string;
+  versionTime: string;
+  valid: boolean;
+  checks: {
+    versionNumber: LogCheckResult;
+    /** First entry only */
+    scid?: LogCheckResult;
+    hashChain: LogCheckResult;
+    timestamps: LogCheckResult;
+    proof: LogProofReport;
+    /** Only when the previous entry committed to nextKeyHashes */
+    prerotation?: LogCheckResult;
+    /** Every entry but the first */
+    portability?: LogCheckResult;
+    /** Only when witnesses are configured */
+    witnesses?: LogWitnessReport;
+    /** Only when the entry changes the witnesses: the approval of the witnesses it replaces */
+    previousWitnesses?: LogWitnessReport;
+  };
+  /** The parameters this entry set or changed, with their previous values */
+  parameterChanges: Record<string, { from?: any; to: any }>;
+}
+
+export interface LogVerificationReport {
+  did: string;
+  scid: string;
+  /** True when every check of every entry passed */
+  valid: boolean;
+  entries: LogEntryReport[];
+}
+
+/**
+ * The witnesses that must approve a log entry. An entry that changes the witnesses also needs the approval of the previous ones
+ */
+export interface WitnessRequirement {
+  /** The position of the entry in the log */
+  index: number;
+  witness: WitnessParameterResolution;
+  /** True when these are the witnesses the entry replaces */
+  previous?: boolean;
+}
+
+/**
+ * The approvals the witness proofs of a log give, counting each proof only for the witnesses that may approve its entry
+ */
+export interface WitnessApprovals {
+  /** The index of the latest entry each witness approved */
+  latest: Map<string, number>;
+  /** The proofs that failed verification */
+  invalid: { index: number, versionId: string, witnessId: string, error: Error }[];
+}
+
+export interface WitnessProofFileIssue {
+  versionId: string;
+  /** The proof the issue is about, when it's about a single proof */
+  verificationMethod?: string;
+  error: string;
+}
+
+export interface WitnessProofFileReport {
+  /** True when every proof is valid and every witnessed entry meets its threshold */
+  valid: boolean;
+  issues: WitnessProofFileIssue[];
+}
@@ -0,0 +1,318 @@
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { config } from './config';
+import { getFS, isKeyInNextKeyHashes } from './utils';
+import { decodeBase64Url, decodeMultikey, encodeBase64Url } from './utils/multiformats';
+import { EcdsaSigner, Ed25519Signer, generateEcdsaVerificationMethod, generateEd25519VerificationMethod } from './cryptography';
+import { UnauthorizedKeyError } from './errors';
+import type { DIDResolutionMeta, KeyType, Signer, VerificationMethod, Verifier } from './interfaces';
+
+export const DEFAULT_KEYSTORE_DIR = '.didwebvh/keys';
+
+/** The scrypt cost of newly encrypted keys (128 MiB with r = 8) */
+export const DEFAULT_SCRYPT_N = 2 ** 17;
+
+/** The highest scrypt cost accepted from a key file (1 GiB with r = 8) */
+export const MAX_SCRYPT_N = 2 ** 20;
+
+// Keys generated or imported before they belong to a DID
+const UNASSIGNED_DIR = 'unassigned';
+
+/**
+ * The secret key of a key file, encrypted with AES-256-GCM under a key derived from the passphrase with scrypt.
+ * The publicKeyMultibase is the additional authenticated data, so a ciphertext can't be moved to another key
+ */
+export interface EncryptedSecretKey {
+  kdf: 'scrypt';
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+  cipher: 'AES-256-GCM';
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * A key file holds one Multikey verification method with its encrypted secret key
+ */
+export type KeyFile = Omit<VerificationMethod, 'secretKeyMultibase'> & {
+  encryptedSecretKey: EncryptedSecretKey;
+};
+
+export interface StoredKey {
+  /** The SCID of the DID the key belongs to, undefined for unassigned keys */
+  scid?: string;
+  path: string;
+  key: KeyFile;
+}
+
+export interface KeystoreOptions {
+  /** Defaults to DIDWEBVH_KEYSTORE and then .didwebvh/keys */
+  dir?: string;
+  /** Required to add keys and to create signers */
+  passphrase?: string;
+  /** The scrypt cost of newly encrypted keys, defaults to DEFAULT_SCRYPT_N */
+  scryptN?: number;
+}
+
+/**
+ * Gets the SCID of a did:webvh DID, which names the DID's keystore directory so it survives a move
+ * @param did - The did:webvh DID
+ * @returns The SCID
+ */
+export function getKeystoreScid(did: string): string {
+  const [method, name, scid] = did.split(':');
+  if (method !== 'did' || name !== 'webvh' || !scid) {
+    throw new Error(`${did} is not a did:webvh DID`);
+  }
+  return scid;
+}
+
+const getKeyType = (publicKeyMultibase: string, secretKeyMultibase: string, source: string): KeyType => {
+  const publicKey = decodeMultikey(publicKeyMultibase);
+  const secretKey = decodeMultikey(secretKeyMultibase);
+  if (publicKey.secret || !secretKey.secret || publicKey.keyType !== secretKey.keyType) {
+    throw new Error(`${source} doesn't contain a ${publicKey.keyType} public and secret key pair`);
+  }
+  return publicKey.keyType;
+};
+
+const deriveEncryptionKey = async (passphrase: string, params: Pick<EncryptedSecretKey, 'n' | 'r' | 'p'>, salt: Uint8Array): Promise<CryptoKey> => {
+  const key = await scryptAsync(passphrase, salt, { N: params.n, r: params.r, p: params.p, dkLen: 32 });
+  return crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+/**
+ * Parses the contents of a key file
+ * @param content - The parsed JSON
+ * @param source - Where the key came from, for error messages
+ * @returns The key file
+ */
+export function parseKeyFile(content: any, source: string): KeyFile {
+  const encrypted = content?.encryptedSecretKey;
+  if (typeof content?.publicKeyMultibase !== 'string' || typeof encrypted?.ciphertext !== 'string') {
+    throw new Error(`${source} isn't an encrypted key file`);
+  }
+  if (encrypted.kdf !== 'scrypt' || encrypted.cipher !== 'AES-256-GCM') {
+    throw new Error(`${source} uses unsupported encryption ${encrypted.kdf}/${encrypted.cipher}`);
+  }
+  // Key files can come from anywhere, so their cost can't make decryption run out of memory
+  const { n, r, p } = encrypted;
+  if (!Number.isInteger(n) || n < 2 || n > MAX_SCRYPT_N || (n & (n - 1)) !== 0 || r !== 8 || p !== 1) {
+    throw new Error(`${source} uses unsupported scrypt parameters n=${n}, r=${r}, p=${p}`);
+  }
+  // The public key names the key file, so it must be a valid Multikey
+  let publicKey: ReturnType<typeof decodeMultikey>;
+  try {
+    publicKey = decodeMultikey(content.publicKeyMultibase);
+  } catch (error) {
+    throw new Error(`${source} has an invalid publicKeyMultibase: ${(error as Error).message}`);
+  }
+  if (publicKey.secret) {
+    throw new Error(`${source} has a secret key as its publicKeyMultibase`);
+  }
+  return content;
+}
+
+/**
+ * Finds the one key that may sign the next entry of a DID: a committed next key when
+ * pre-rotation is active, otherwise one of the current update keys
+ * @param keys - The candidate keys
+ * @param meta - The resolution metadata of the latest version
+ * @returns The authorized key
+ */
+export async function findSigningKey(keys: StoredKey[], meta: DIDResolutionMeta): Promise<StoredKey> {
+  const authorized: StoredKey[] = [];
+  for (const stored of keys) {
+    const { publicKeyMultibase } = stored.key;
+    const isAuthorized = meta.prerotation
+      ? await isKeyInNextKeyHashes(publicKeyMultibase, meta.nextKeyHashes)
+      : meta.updateKeys.includes(publicKeyMultibase);
+    if (isAuthorized && !authorized.some(k => k.key.publicKeyMultibase === publicKeyMultibase)) {
+      authorized.push(stored);
+    }
+  }
+  if (authorized.length === 0) {
+    throw new UnauthorizedKeyError(meta.prerotation
+      ? `No stored key matches nextKeyHashes ${meta.nextKeyHashes}`
+      : `No stored key matches the update keys ${meta.updateKeys}`);
+  }
+  if (authorized.length > 1) {
+    throw new Error(`Several stored keys are authorized (${authorized.map(k => k.key.publicKeyMultibase).join(', ')}), pick one with --key-file`);
+  }
+  return authorized[0];
+}
+
+/**
+ * A directory of passphrase encrypted key files with one subdirectory per DID, named after its SCID.
+ * Secret keys are only decrypted to create signers and are never returned
+ */
+export class Keystore {
+  readonly dir: string;
+  private passphrase?: string;
+  private scryptN: number;
+
+  constructor(options: KeystoreOptions = {}) {
+    this.dir = options.dir ?? config.getEnvValue('DIDWEBVH_KEYSTORE') ?? DEFAULT_KEYSTORE_DIR;
+    this.passphrase = options.passphrase;
+    this.scryptN = options.scryptN ?? DEFAULT_SCRYPT_N;
+    if (!Number.isInteger(this.scryptN) || this.scryptN < 2 || this.scryptN > MAX_SCRYPT_N || (this.scryptN & (this.scryptN - 1)) !== 0) {
+      throw new Error(`The scrypt cost must be a power of two up to ${MAX_SCRYPT_N}, got ${this.scryptN}`);
+    }
+  }
+
+  private requirePassphrase(): string {
+    if (!this.passphrase) {
+      throw new Error('A passphrase is required to use the secret keys of the keystore');
+    }
+    return this.passphrase;
+  }
+
+  /**
+   * Reads a key file, which may live outside the keystore
+   * @param path - The path of the key file
+   * @returns The stored key
+   */
+  async read(path: string): Promise<StoredKey> {
+    const fs = await getFS();
+    const key = parseKeyFile(JSON.parse(fs.readFileSync(path, 'utf8')), path);
+    return { scid: key.controller?.startsWith('did:webvh:') ? getKeystoreScid(key.controller) : undefined, path, key };
+  }
+
+  /**
+   * Writes a key file to the keystore, readable only by the current user
+   * @param key - The key file contents
+   * @param scid - The SCID of the DID the key belongs to
+   * @returns The stored key
+   */
+  async write(key: KeyFile, scid?: string): Promise<StoredKey> {
+    parseKeyFile(key, `Key ${key.publicKeyMultibase}`);
+    const fs = await getFS();
+    const keyDir = `${this.dir}/${scid ?? UNASSIGNED_DIR}`;
+    fs.mkdirSync(keyDir, { recursive: true, mode: 0o700 });
+    const path = `${keyDir}/${key.publicKeyMultibase}.json`;
+    fs.writeFileSync(path, JSON.stringify(key, null, 2), { mode: 0o600 });
+    return { scid, path, key };
+  }
+
+  /**
+   * Encrypts a key and adds it to the keystore
+   * @param vm - A Multikey verification method with its secretKeyMultibase
+   * @param scid - The SCID of the DID the key belongs to
+   * @returns The stored key, without its secret
+   */
+  async add(vm: VerificationMethod, scid?: string): Promise<StoredKey> {
+    const { secretKeyMultibase, ...publicVM } = vm;
+    if (!publicVM.publicKeyMultibase || !secretKeyMultibase) {
+      throw new Error('Only keys with a publicKeyMultibase and a secretKeyMultibase can be stored');
+    }
+    getKeyType(publicVM.publicKeyMultibase, secretKeyMultibase, publicVM.publicKeyMultibase);
+
+    const params = { n: this.scryptN, r: 8, p: 1 };
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encryptionKey = await deriveEncryptionKey(this.requirePassphrase(), params, salt);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(publicVM.publicKeyMultibase) },
+      encryptionKey,
+      new TextEncoder().encode(secretKeyMultibase)
+    );
+    return this.write({
+      ...publicVM,
+      type: publicVM.type ?? 'Multikey',
+      encryptedSecretKey: {
+        kdf: 'scrypt',
+        ...params,
+        salt: encodeBase64Url(salt),
+        cipher: 'AES-256-GCM',
+        iv: encodeBase64Url(iv),
+        ciphertext: encodeBase64Url(new Uint8Array(ciphertext))
+      }
+    }, scid);
+  }
+
+  /**
+   * Generates a key and adds it to the keystore
+   * @param options - The DID the key belongs to and its key type, Ed25519 by default
+   * @returns The stored key, without its secret
+   */
+  async generate(options: { did?: string, keyType?: KeyType } = {}): Promise<StoredKey> {
+    const vm = !options.keyType || options.keyType === 'Ed25519'
+      ? await generateEd25519VerificationMethod()
+      : await generateEcdsaVerificationMethod(options.keyType);
+    const { did } = options;
+    return this.add(
+      did ? { ...vm, controller: did, id: `${did}#${vm.publicKeyMultibase.slice(-8)}` } : vm,
+      did ? getKeystoreScid(did) : undefined
+    );
+  }
+
+  /**
+   * Lists the keys in the keystore, sorted by SCID and public key
+   * @param scid - Only list the keys of this DID
+   * @returns The stored keys
+   */
+  async list(scid?: string): Promise<StoredKey[]> {
+    const fs = await getFS();
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    const keyDirs: string[] = scid ? [scid] : fs.readdirSync(this.dir).sort();
+    const keys: StoredKey[] = [];
+    for (const keyDir of keyDirs) {
+      const path = `${this.dir}/${keyDir}`;
+      if (!fs.existsSync(path) || !fs.statSync(path).isDirectory()) {
+        continue;
+      }
+      for (const file of fs.readdirSync(path).filter((file: string) => file.endsWith('.json')).sort()) {
+        const stored = await this.read(`${path}/${file}`);
+        keys.push({ ...stored, scid: keyDir === UNASSIGNED_DIR ? undefined : keyDir });
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Finds a stored key by its public key
+   * @param publicKeyMultibase - The public key
+   * @param scid - Only look at the keys of this DID
+   * @returns The stored key, if any
+   */
+  async find(publicKeyMultibase: string, scid?: string): Promise<StoredKey | undefined> {
+    return (await this.list(scid)).find(stored => stored.key.publicKeyMultibase === publicKeyMultibase);
+  }
+
+  /**
+   * Decrypts a key into a signer. The signer keeps the decoded secret key to itself
+   * @param stored - A stored key, e.g. from list, find or read
+   * @returns An Ed25519 or ECDSA signer for the key
+   */
+  async getSigner(stored: StoredKey): Promise<Signer & Verifier> {
+    const { encryptedSecretKey, ...verificationMethod } = stored.key;
+    const passphrase = this.requirePassphrase();
+    let plaintext: ArrayBuffer;
+    try {
+      const encryptionKey = await deriveEncryptionKey(passphrase, encryptedSecretKey, decodeBase64Url(encryptedSecretKey.salt));
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: decodeBase64Url(encryptedSecretKey.iv), additionalData: new TextEncoder().encode(verificationMethod.publicKeyMultibase) },
+        encryptionKey,
+        decodeBase64Url(encryptedSecretKey.ciphertext)
+      );
+    } catch {
+      throw new Error(`Could not decrypt ${stored.path}, the passphrase is wrong or the file is corrupted`);
+    }
+    const secretKeyMultibase = new TextDecoder().decode(plaintext);
+    const keyType = getKeyType(verificationMethod.publicKeyMultibase, secretKeyMultibase, stored.path);
+    const options = { verificationMethod: { ...verificationMethod, secretKeyMultibase } };
+    return keyType === 'Ed25519' ? new Ed25519Signer(options) : new EcdsaSigner(options);
+  }
+
+  /**
+   * Lists the DIDs with keys in the keystore, e.g. for the controlledDIDs resolution option
+   * @returns The controllers of the stored keys
+   */
+  async getActiveDIDs(): Promise<string[]> {
+    const controllers = (await this.list()).map(stored => stored.key.controller).filter((did): did is string => !!did);
+    return [...new Set(controllers)];
+  }
+}
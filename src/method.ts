@@ -1,7 +1,10 @@
-import { fetchLogFromIdentifier, getActiveDIDs, maybeWriteTestLog } from "./utils";
-import type { CreateDIDInterface, DIDLog, UpdateDIDInterface, DeactivateDIDInterface, ResolutionOptions, WitnessProofFileEntry } from './interfaces';
+import { deepClone, deriveHash, fetchLogFromIdentifier, fetchLogIfModified, maybeWriteTestLog } from "./utils";
+import type { CachedResolution, CreateDIDInterface, DIDLog, DIDResolutionMeta, UpdateDIDInterface, DeactivateDIDInterface, RotateUpdateKeysInterface, ResolutionOptions, VerifyLogOptions, WitnessProofFileEntry } from './interfaces';
 import * as v1 from './method_versions/method.v1.0';
 import * as v0_5 from './method_versions/method.v0.5';
+import { createDIDWebDoc } from './didweb';
+import { createErrorMeta } from './errors';
+import { DEFAULT_TTL } from './constants';
 
 const LATEST_VERSION = '1.0';
 
@@ -25,25 +28,44 @@ function getWebvhVersionFromOptions(options: any): string {
   return LATEST_VERSION;
 }
 
+// A resolution may be served from the cache for the DID's ttl (in seconds)
+const getCacheExpiry = (meta: DIDResolutionMeta) => Date.now() + (meta.ttl ?? DEFAULT_TTL) * 1000;
+
 export const createDID = async (options: CreateDIDInterface) => {
   const version = getWebvhVersionFromOptions(options);
   const result = version === '0.5'
     ? await v0_5.createDID(options)
     : await v1.createDID(options);
   maybeWriteTestLog(result.did, result.log);
-  return result;
+  return { ...result, didWebDoc: options.didWeb ? createDIDWebDoc(result.doc) : undefined };
 };
 
 export const resolveDID = async (did: string, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[], scid?: string } = {}) => {
-  const activeDIDs = await getActiveDIDs();
-  const controlled = activeDIDs.includes(did);
+  const controlled = options.controlledDIDs?.includes(did) ?? false;
   let scid: string | undefined = undefined;
   const didParts = did.split(":");
   if (didParts.length > 2 && didParts[0] === "did" && didParts[1] === "webvh") {
     scid = didParts[2];
   }
   try {
-    const log = await fetchLogFromIdentifier(did, controlled);
+    // Only the latest version of a remote DID is cached
+    const cache = !controlled && !options.versionNumber && !options.versionId && !options.versionTime && !options.verificationMethod
+      ? options.cache
+      : undefined;
+    const cached = await cache?.get(did);
+    const fromCache = (entry: CachedResolution) => ({ did: entry.did, doc: deepClone(entry.doc), meta: deepClone(entry.meta) as DIDResolutionMeta, controlled });
+    if (cached?.expires !== undefined && Date.now() < cached.expires) {
+      return fromCache(cached);
+    }
+    const fetched = cache
+      ? await fetchLogIfModified(did, cached?.etag, options.fetcher)
+      : { log: await fetchLogFromIdentifier(did, controlled, options.fetcher) };
+    if (cached && !fetched.log) {
+      await cache!.set(did, { ...cached, expires: getCacheExpiry(cached.meta) });
+      return fromCache(cached);
+    }
+
+    const log = fetched.log!;
     const version = getWebvhVersionFromLog(log);
     const optsWithScid = { ...options, scid };
     if (version === '0.5') {
@@ -51,36 +73,31 @@ export const resolveDID = async (did: string, options: ResolutionOptions & { wit
       maybeWriteTestLog(result.did, log);
       return { ...result, controlled };
     }
-    const result = await v1.resolveDIDFromLog(log, optsWithScid);
+    const result = await v1.resolveDIDFromLog(log, { ...optsWithScid, cached });
     maybeWriteTestLog(result.did, log);
+    if (cache) {
+      await cache.set(did, {
+        did: result.did,
+        doc: result.doc,
+        meta: result.meta,
+        lastEntryHash: await deriveHash(log[log.length - 1]),
+        versionIds: log.map(entry => entry.versionId),
+        etag: 'etag' in fetched ? fetched.etag : undefined,
+        expires: getCacheExpiry(result.meta)
+      });
+    }
     return { ...result, controlled };
   } catch (e: any) {
-    let errorType = 'INVALID_DID';
-    const message = e instanceof Error ? e.message : String(e);
-    if (/not found/i.test(message) || /404/.test(message)) {
-      errorType = 'notFound';
-    }
     return {
       did,
       doc: null,
-      meta: {
-        error: errorType,
-        problemDetails: {
-          type: errorType === 'notFound'
-            ? 'https://w3id.org/security#NOT_FOUND'
-            : 'https://w3id.org/security#INVALID_CONTROLLED_IDENTIFIER_DOCUMENT_ID',
-          title: errorType === 'notFound'
-            ? 'The DID Log or resource was not found.'
-            : 'The resolved DID is invalid.',
-          detail: message
-        }
-      },
+      meta: createErrorMeta(e),
       controlled
     };
   }
 };
 
-export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[] } = {}) => {
+export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[], resolving?: string[] } = {}) => {
   const version = getWebvhVersionFromLog(log);
   if (version === '0.5') {
     const result = await v0_5.resolveDIDFromLog(log, options);
@@ -98,6 +115,16 @@ export const updateDID = async (options: UpdateDIDInterface & { services?: any[]
     ? await v0_5.updateDID(options)
     : await v1.updateDID(options);
   maybeWriteTestLog(result.did, result.log);
+  return { ...result, didWebDoc: options.didWeb ? createDIDWebDoc(result.doc) : undefined };
+};
+
+export const rotateUpdateKeys = async (options: RotateUpdateKeysInterface) => {
+  const version = getWebvhVersionFromLog(options.log);
+  if (version === '0.5') {
+    throw new Error('Key rotation helpers require a did:webvh:1.0 log');
+  }
+  const result = await v1.rotateUpdateKeys(options);
+  maybeWriteTestLog(result.did, result.log);
   return result;
 };
 
@@ -109,3 +136,11 @@ export const deactivateDID = async (options: DeactivateDIDInterface & { updateKe
   maybeWriteTestLog(result.did, result.log);
   return result;
 };
+
+export const verifyLog = async (log: DIDLog, options: VerifyLogOptions = {}) => {
+  const version = getWebvhVersionFromLog(log);
+  if (version === '0.5') {
+    throw new Error('Log verification reports require a did:webvh:1.0 log');
+  }
+  return v1.verifyLog(log, options);
+};
@@ -1,4 +1,5 @@
-import { createDate, createDIDDoc, createSCID, deriveHash, findVerificationMethod, getBaseUrl, replaceValueInObject, deepClone } from "../utils";
+import { createDate, createDIDDoc, createSCID, deriveHash, findVerificationMethod, addDefaultServices, replaceValueInObject, deepClone } from "../utils";
+import { isJsonWebKeyVerificationMethod } from "../utils/jwk";
 import {METHOD, PLACEHOLDER } from '../constants';
 import { documentStateIsValid, hashChainValid, newKeysAreInNextKeys, scidIsFromHash } from '../assertions';
 import type { CreateDIDInterface, DIDResolutionMeta, DIDLogEntry, DIDLog, UpdateDIDInterface, DeactivateDIDInterface, ResolutionOptions, WitnessProofFileEntry, WitnessParameterResolution } from '../interfaces';
@@ -23,7 +24,7 @@ export const createDID = async (options: CreateDIDInterface): Promise<{did: stri
   
   // Safety guard: Strip secret keys from verification methods before creating DID document
   const safeVerificationMethods = options.verificationMethods?.map(vm => {
-    if (vm.secretKeyMultibase) {
+    if (!isJsonWebKeyVerificationMethod(vm) && vm.secretKeyMultibase) {
       console.warn('Warning: Removing secretKeyMultibase from verification method - secret keys should not be stored in DID documents');
       const { secretKeyMultibase, ...safeVm } = vm;
       return safeVm;
@@ -170,7 +171,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
       // Optimized: Direct object manipulation instead of JSON stringify/parse
       const prelimEntry = replaceValueInObject(logEntry, PLACEHOLDER, meta.scid);
       const logEntryHash2 = await deriveHash(prelimEntry);
-      const verified = await documentStateIsValid({...prelimEntry, versionId: `1-${logEntryHash2}`, proof}, meta.updateKeys, meta.witness, false, options.verifier);
+      const verified = await documentStateIsValid({...prelimEntry, versionId: `1-${logEntryHash2}`, proof}, meta.updateKeys, meta.witness, false, options.verifier, options.fetcher);
       if (!verified) {
         throw new Error(`version ${meta.versionId} failed verification of the proof.`)
       }
@@ -183,7 +184,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
         host = newHost;
       }
       const keys = meta.prerotation ? parameters.updateKeys : meta.updateKeys;
-      const verified = await documentStateIsValid(resolutionLog[i], keys, meta.witness, false, options.verifier);
+      const verified = await documentStateIsValid(resolutionLog[i], keys, meta.witness, false, options.verifier, options.fetcher);
       if (!verified) {
         throw new Error(`version ${meta.versionId} failed verification of the proof.`)
       }
@@ -229,25 +230,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
     did = doc.id;
 
     // Add default services if they don't exist
-    doc.service = doc.service || [];
-    const baseUrl = getBaseUrl(did);
-
-    if (!doc.service.some((s: any) => s.id === '#files')) {
-      doc.service.push({
-        id: '#files',
-        type: 'relativeRef',
-        serviceEndpoint: baseUrl
-      });
-    }
-
-    if (!doc.service.some((s: any) => s.id === '#whois')) {
-      doc.service.push({
-        "@context": "https://identity.foundation/linked-vp/contexts/v1",
-        id: '#whois',
-        type: 'LinkedVerifiablePresentation',
-        serviceEndpoint: `${baseUrl}/whois.vp`
-      });
-    }
+    addDefaultServices(doc);
 
     if (options.verificationMethod && findVerificationMethod(doc, options.verificationMethod)) {
       if (!resolvedDoc) {
@@ -278,7 +261,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
 
     if (meta.witness && i === resolutionLog.length - 1) {
       if (!options.witnessProofs) {
-        options.witnessProofs = await fetchWitnessProofs(did);
+        options.witnessProofs = await fetchWitnessProofs(did, options.fetcher);
       }
 
       const validProofs = options.witnessProofs.filter((wp: WitnessProofFileEntry) => {
@@ -286,7 +269,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
       });
 
       if (validProofs.length > 0) {
-        await verifyWitnessProofs(resolutionLog[i], validProofs, meta.witness!, options.verifier);
+        await verifyWitnessProofs(resolutionLog[i], validProofs, meta.witness!, options.verifier, options.fetcher);
       } else if (meta.witness && meta.witness.threshold && parseInt(meta.witness.threshold.toString()) > 0) {
         throw new Error('No witness proofs found for version ' + meta.versionId);
       }
@@ -341,7 +324,7 @@ export const updateDID = async (options: UpdateDIDInterface & { services?: any[]
   
   // Safety guard: Strip secret keys from verification methods before creating DID document  
   const safeVerificationMethods = options.verificationMethods?.map(vm => {
-    if (vm.secretKeyMultibase) {
+    if (!isJsonWebKeyVerificationMethod(vm) && vm.secretKeyMultibase) {
       console.warn('Warning: Removing secretKeyMultibase from verification method - secret keys should not be stored in DID documents');
       const { secretKeyMultibase, ...safeVm } = vm;
       return safeVm;
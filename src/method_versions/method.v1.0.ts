@@ -1,11 +1,48 @@
-import { createDate, createDIDDoc, createSCID, deriveHash, findVerificationMethod, getActiveDIDs, getBaseUrl, replaceValueInObject, deepClone } from "../utils";
+import { createDate, createDIDDoc, createSCID, deriveHash, deriveNextKeyHash, findVerificationMethod, getHashAlgorithm, isKeyInNextKeyHashes, addDefaultServices, replaceValueInObject, deepClone } from "../utils";
+import { isJsonWebKeyVerificationMethod } from "../utils/jwk";
 import { METHOD, PLACEHOLDER } from '../constants';
-import { documentStateIsValid, hashChainValid, newKeysAreInNextKeys, scidIsFromHash } from '../assertions';
-import type { CreateDIDInterface, DIDResolutionMeta, DIDLogEntry, DIDLog, UpdateDIDInterface, DeactivateDIDInterface, ResolutionOptions, WitnessProofFileEntry, DataIntegrityProof } from '../interfaces';
-import { verifyWitnessProofs, validateWitnessParameter, fetchWitnessProofs } from '../witness';
+import { documentStateIsValid, hashChainValid, newKeysAreInNextKeys, scidIsFromHash, timestampsAreValid } from '../assertions';
+import { canonicalize } from 'json-canonicalize';
+import type { CreateDIDInterface, DIDResolutionMeta, DIDLogEntry, DIDLog, UpdateDIDInterface, DeactivateDIDInterface, RotateUpdateKeysInterface, ResolutionOptions, WitnessProofFileEntry, DataIntegrityProof, CachedResolution, LogCheckResult, LogEntryReport, LogVerificationReport, LogWitnessReport, VerifyLogOptions, WitnessApprovals, WitnessParameterResolution, WitnessRequirement } from '../interfaces';
+import { verifyWitnessApprovals, validateWitnessParameter, fetchWitnessProofs, getWitnessRequirements, findWitness, getApprovedBy, getMissingApprovals, getWitnessApprovals } from '../witness';
+import { getCryptosuiteForVerificationMethod } from '../cryptography';
+import { MultihashAlgorithm } from '../utils/multiformats';
+import { DIDResolutionError, HashChainError, HistoryRewriteError, InvalidOptionsError, LegacyEntryHashError, InvalidProofError, NotFoundError, PortabilityError, SCIDMismatchError, UnauthorizedKeyError } from '../errors';
 
 const VERSION = '1.0';
 const PROTOCOL = `did:${METHOD}:${VERSION}`;
+const DEFAULT_MAX_CLOCK_SKEW = 300;
+
+const validateTtl = (ttl?: number) => {
+  if (ttl !== undefined && (!Number.isInteger(ttl) || ttl < 0)) {
+    throw new Error(`Invalid ttl '${ttl}': must be a non-negative integer number of seconds`);
+  }
+};
+
+// The entry hash is calculated over the entry with its versionId set to the previous entry's
+// versionId. Updates written by releases up to 2.5.4 used the SCID placeholder instead, which
+// doesn't commit to the previous entry, so those are only accepted on request.
+const entryHashIsValid = async (entry: DIDLogEntry, previousVersionId: string, allowLegacyEntryHash = false) => {
+  const { proof, ...rest } = entry;
+  const entryHash = entry.versionId.split('-')[1];
+  const algorithm = getHashAlgorithm(entryHash);
+  if (hashChainValid(await deriveHash({ ...rest, versionId: previousVersionId }, algorithm), entryHash)) {
+    return true;
+  }
+  if (!hashChainValid(await deriveHash({ ...rest, versionId: PLACEHOLDER }, algorithm), entryHash)) {
+    return false;
+  }
+  if (!allowLegacyEntryHash) {
+    throw new LegacyEntryHashError(
+      `Hash chain broken at '${entry.versionId}': its entry hash is over the SCID placeholder, as written by releases up to 2.5.4. Pass allowLegacyEntryHash to accept it.`,
+      { versionId: entry.versionId }
+    );
+  }
+  return true;
+}
+
+// New entries are hashed with the algorithm used by the last entry of the log
+const getLogHashAlgorithm = (log: DIDLog) => getHashAlgorithm(log[log.length - 1].versionId.split('-')[1]) ?? MultihashAlgorithm.SHA2_256;
 
 export const createDID = async (options: CreateDIDInterface): Promise<{did: string, doc: any, meta: DIDResolutionMeta, log: DIDLog}> => {
   if (!options.updateKeys) {
@@ -15,6 +52,7 @@ export const createDID = async (options: CreateDIDInterface): Promise<{did: stri
   if (options.witness && options.witness.witnesses && options.witness.witnesses.length > 0) {
     validateWitnessParameter(options.witness);
   }
+  validateTtl(options.ttl);
   const encodedDomain = encodeURIComponent(options.domain);
   const path = options.paths?.join(':');
   const controller = `did:${METHOD}:${PLACEHOLDER}:${encodedDomain}${path ? `:${path}` : ''}`;
@@ -22,6 +60,14 @@ export const createDID = async (options: CreateDIDInterface): Promise<{did: stri
   
   // Safety guard: Strip secret keys from verification methods before creating DID document
   const safeVerificationMethods = options.verificationMethods?.map(vm => {
+    if (isJsonWebKeyVerificationMethod(vm)) {
+      if (vm.publicKeyJwk.d) {
+        console.warn('Warning: Removing private key (d) from publicKeyJwk - secret keys should not be stored in DID documents');
+        const { d, ...publicKeyJwk } = vm.publicKeyJwk;
+        return { ...vm, publicKeyJwk };
+      }
+      return vm;
+    }
     if (vm.secretKeyMultibase) {
       console.warn('Warning: Removing secretKeyMultibase from verification method - secret keys should not be stored in DID documents');
       const { secretKeyMultibase, ...safeVm } = vm;
@@ -38,6 +84,7 @@ export const createDID = async (options: CreateDIDInterface): Promise<{did: stri
     nextKeyHashes: options.nextKeyHashes ?? [],
     watchers: options.watchers ?? [],
     witness: options.witness ?? {},
+    ...(options.ttl !== undefined ? { ttl: options.ttl } : {}),
     deactivated: false
   };
   const initialLogEntry: DIDLogEntry = {
@@ -49,14 +96,15 @@ export const createDID = async (options: CreateDIDInterface): Promise<{did: stri
     },
     state: doc
   };
-  const initialLogEntryHash = await deriveHash(initialLogEntry);
+  const hashAlgorithm = options.hashAlgorithm ?? MultihashAlgorithm.SHA2_256;
+  const initialLogEntryHash = await deriveHash(initialLogEntry, hashAlgorithm);
   params.scid = await createSCID(initialLogEntryHash);
   initialLogEntry.state = doc;
   const prelimEntry = JSON.parse(JSON.stringify(initialLogEntry).replaceAll(PLACEHOLDER, params.scid));
-  const logEntryHash2 = await deriveHash(prelimEntry);
+  const logEntryHash2 = await deriveHash(prelimEntry, hashAlgorithm);
   prelimEntry.versionId = `1-${logEntryHash2}`;
-  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
-  let allProofs = [{ type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
+  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
+  let allProofs = [{ type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
   prelimEntry.proof = allProofs;
 
   const verified = await documentStateIsValid(
@@ -86,9 +134,9 @@ export const createDID = async (options: CreateDIDInterface): Promise<{did: stri
   }
 }
 
-export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[], fastResolve?: boolean } = {}): Promise<{did: string, doc: any, meta: DIDResolutionMeta}> => {
+export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[], cached?: CachedResolution, resolving?: string[] } = {}): Promise<{did: string, doc: any, meta: DIDResolutionMeta}> => {
   if (options.verificationMethod && (options.versionNumber || options.versionId)) {
-    throw new Error("Cannot specify both verificationMethod and version number/id");
+    throw new InvalidOptionsError("Cannot specify both verificationMethod and version number/id");
   }
   const resolutionLog = log.map(l => deepClone(l));
   let did = '';
@@ -112,24 +160,51 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
   let lastValidMeta: DIDResolutionMeta | null = null;
   let i = 0;
   let host = '';
+  // The witnesses that must approve each entry published while witnessing was active
+  const witnessRequirements: WitnessRequirement[] = [];
+  // The DIDs whose witness keys led to this resolution, and this one
+  const resolving = [...options.resolving ?? [], resolutionLog[0]?.state?.id ?? ''];
 
-  // Fast resolution: Only verify critical entries (first and last few entries)
-  const fastResolve = options.fastResolve ?? true; // Default to fast resolution
+  // Every entry is verified unless fast resolution is explicitly requested, in which
+  // case only the first and last few entries are checked
+  const fastResolve = options.fastResolve ?? false;
   const isFirstEntry = (idx: number) => idx === 0;
   const isLastFewEntries = (idx: number) => idx >= resolutionLog.length - 10; // Verify last 10 entries
   const shouldVerifyEntry = (idx: number) => !fastResolve || isFirstEntry(idx) || isLastFewEntries(idx);
+  const maxClockSkew = options.maxClockSkew ?? DEFAULT_MAX_CLOCK_SKEW;
+
+  // Resume from a previously verified state, so only the entries appended since are verified.
+  // The cached entries must all still be in the log unchanged, otherwise the history was rewritten.
+  if (options.cached) {
+    const cachedVersionId = options.cached.meta.versionId;
+    const cachedIndex = parseInt(cachedVersionId.split('-')[0]) - 1;
+    const cachedEntry = resolutionLog[cachedIndex];
+    const rewrittenVersionId = options.cached.versionIds.find((id, idx) => resolutionLog[idx]?.versionId !== id);
+    if (rewrittenVersionId) {
+      throw new HistoryRewriteError(`DID log history was rewritten at '${rewrittenVersionId}'`, { versionId: rewrittenVersionId });
+    }
+    if (!cachedEntry || cachedEntry.versionId !== cachedVersionId || await deriveHash(cachedEntry) !== options.cached.lastEntryHash) {
+      throw new HistoryRewriteError(`DID log history was rewritten at '${cachedVersionId}'`, { versionId: cachedVersionId });
+    }
+    meta = deepClone(options.cached.meta);
+    doc = deepClone(options.cached.doc);
+    did = doc.id;
+    host = did.split(':').at(-1)!;
+    lastValidDoc = deepClone(doc);
+    lastValidMeta = { ...meta };
+    i = cachedIndex + 1;
+  }
 
   try {
   while (i < resolutionLog.length) {
     const { versionId, versionTime, parameters, state, proof } = resolutionLog[i];
     const [version, entryHash] = versionId.split('-');
+    const previousWitness = meta.witness;
     if (parseInt(version) !== i + 1) {
-      throw new Error(`version '${version}' in log doesn't match expected '${i + 1}'.`);
+      throw new HashChainError(`version '${version}' in log doesn't match expected '${i + 1}'.`, { versionId });
     }
     meta.versionId = versionId;
-    if (versionTime) {
-      // TODO check timestamps make sense
-    }
+    timestampsAreValid(resolutionLog[i], resolutionLog[i - 1]?.versionTime, maxClockSkew);
     meta.updated = versionTime;
     let newDoc = state;
     
@@ -144,6 +219,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
       meta.prerotation = meta.nextKeyHashes.length > 0;
       meta.witness = parameters.witness || meta.witness;
       meta.watchers = parameters.watchers ?? null;
+      meta.ttl = parameters.ttl;
       
       if (shouldVerifyEntry(i)) {
         // Optimized: Use efficient object manipulation instead of JSON stringify/parse
@@ -154,39 +230,43 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
           state: replaceValueInObject(newDoc, meta.scid, PLACEHOLDER)
         };
         
-        const logEntryHash = await deriveHash(logEntry);
+        // The SCID and the entry hash are recomputed with the algorithms named in their multihash prefixes
+        const logEntryHash = await deriveHash(logEntry, getHashAlgorithm(meta.scid));
         meta.previousLogEntryHash = logEntryHash;
         if (!await scidIsFromHash(meta.scid, logEntryHash)) {
-          throw new Error(`SCID '${meta.scid}' not derived from logEntryHash '${logEntryHash}'`);
+          throw new SCIDMismatchError(`SCID '${meta.scid}' not derived from logEntryHash '${logEntryHash}'`, { versionId });
         }
         
         // Optimized: Direct object manipulation instead of JSON stringify/parse
         const prelimEntry = replaceValueInObject(logEntry, PLACEHOLDER, meta.scid);
         
-        const logEntryHash2 = await deriveHash(prelimEntry);
-        const verified = await documentStateIsValid({...prelimEntry, versionId: `1-${logEntryHash2}`, proof}, meta.updateKeys, meta.witness, false, options.verifier);
+        const logEntryHash2 = await deriveHash(prelimEntry, getHashAlgorithm(entryHash));
+        if (!hashChainValid(logEntryHash2, entryHash)) {
+          throw new HashChainError(`Hash chain broken at '${meta.versionId}'`, { versionId });
+        }
+        const verified = await documentStateIsValid({...prelimEntry, versionId: `1-${logEntryHash2}`, proof}, meta.updateKeys, meta.witness, false, options.verifier, options.fetcher);
         if (!verified) {
-          throw new Error(`version ${meta.versionId} failed verification of the proof.`)
+          throw new InvalidProofError(`version ${meta.versionId} failed verification of the proof.`, { versionId });
         }
       }
     } else {
       // version number > 1
       const newHost = newDoc.id.split(':').at(-1);
       if (!meta.portable && newHost !== host) {
-        throw new Error("Cannot move DID: portability is disabled");
+        throw new PortabilityError("Cannot move DID: portability is disabled", { versionId });
       } else if (newHost !== host) {
         host = newHost;
       }
       
       if (shouldVerifyEntry(i)) {
         const keys = meta.prerotation ? parameters.updateKeys : meta.updateKeys;
-        const verified = await documentStateIsValid(resolutionLog[i], keys, meta.witness, false, options.verifier);
+        const verified = await documentStateIsValid(resolutionLog[i], keys, meta.witness, false, options.verifier, options.fetcher);
         if (!verified) {
-          throw new Error(`version ${meta.versionId} failed verification of the proof.`)
+          throw new InvalidProofError(`version ${meta.versionId} failed verification of the proof.`, { versionId });
         }
 
-        if (!hashChainValid(`${i+1}-${entryHash}`, versionId)) {
-          throw new Error(`Hash chain broken at '${meta.versionId}'`);
+        if (!await entryHashIsValid(resolutionLog[i], resolutionLog[i - 1].versionId, options.allowLegacyEntryHash)) {
+          throw new HashChainError(`Hash chain broken at '${meta.versionId}'`, { versionId });
         }
 
         if (meta.prerotation) {
@@ -205,7 +285,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
       }
       if (parameters.nextKeyHashes) {
         meta.nextKeyHashes = parameters.nextKeyHashes;
-        meta.prerotation = true;
+        meta.prerotation = meta.nextKeyHashes.length > 0;
       } else {
         meta.nextKeyHashes = [];
         meta.prerotation = false;
@@ -221,6 +301,9 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
       if ('watchers' in parameters) {
         meta.watchers = parameters.watchers ?? null;
       }
+      if ('ttl' in parameters) {
+        meta.ttl = parameters.ttl;
+      }
     }
     
     // Optimized: Use efficient cloning instead of clone() function
@@ -230,25 +313,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
     // Only add default services for entries we need to process
     if (shouldVerifyEntry(i) || i === resolutionLog.length - 1) {
       // Add default services if they don't exist
-      doc.service = doc.service || [];
-      const baseUrl = getBaseUrl(did);
-
-      if (!doc.service.some((s: any) => s.id === '#files')) {
-        doc.service.push({
-          id: '#files',
-          type: 'relativeRef',
-          serviceEndpoint: baseUrl
-        });
-      }
-
-      if (!doc.service.some((s: any) => s.id === '#whois')) {
-        doc.service.push({
-          "@context": "https://identity.foundation/linked-vp/contexts/v1",
-          id: '#whois',
-          type: 'LinkedVerifiablePresentation',
-          serviceEndpoint: `${baseUrl}/whois.vp`
-        });
-      }
+      addDefaultServices(doc);
     }
 
     if (options.verificationMethod && findVerificationMethod(doc, options.verificationMethod)) {
@@ -278,20 +343,16 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
       }
     }
 
-    if (meta.witness && i === resolutionLog.length - 1) {
-      if (!options.witnessProofs) {
-        options.witnessProofs = await fetchWitnessProofs(did);
-      }
-
-      const validProofs = options.witnessProofs.filter((wp: WitnessProofFileEntry) => {
-        return wp.versionId === meta.versionId;
-      });
+    if (shouldVerifyEntry(i)) {
+      witnessRequirements.push(...getWitnessRequirements(i, meta.witness, previousWitness));
+    }
 
-      if (validProofs.length > 0) {
-        await verifyWitnessProofs(resolutionLog[i], validProofs, meta.witness!, options.verifier);
-      } else if (meta.witness && meta.witness.threshold && parseInt(meta.witness.threshold.toString()) > 0) {
-        throw new Error('No witness proofs found for version ' + meta.versionId);
+    // Once the whole log is read, every witnessed entry must be approved, directly or by a later version
+    if (witnessRequirements.length > 0 && i === resolutionLog.length - 1) {
+      if (!options.witnessProofs) {
+        options.witnessProofs = await fetchWitnessProofs(did, options.fetcher);
       }
+      await verifyWitnessApprovals(resolutionLog, witnessRequirements, options.witnessProofs, options.verifier, options.fetcher, resolving);
     }
 
     lastValidDoc = deepClone(doc);
@@ -300,6 +361,9 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
     i++;
   }
   } catch (e) {
+    if (e instanceof DIDResolutionError && !e.versionId) {
+      e.versionId = meta.versionId;
+    }
     if (!resolvedDoc) {
       throw e;
     }
@@ -311,7 +375,7 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
   }
 
   if (!resolvedMeta) {
-    throw new Error('DID resolution failed: No valid metadata found');
+    throw new NotFoundError('DID resolution failed: No valid metadata found');
   }
 
   return {
@@ -324,25 +388,39 @@ export const resolveDIDFromLog = async (log: DIDLog, options: ResolutionOptions
 export const updateDID = async (options: UpdateDIDInterface & { services?: any[], domain?: string, updated?: string }): Promise<{did: string, doc: any, meta: DIDResolutionMeta, log: DIDLog}> => {
   const log = options.log;
   const lastEntry = log[log.length - 1];
-  const lastMeta = (await resolveDIDFromLog(log, { verifier: options.verifier, witnessProofs: options.witnessProofs })).meta;
+  const lastMeta = (await resolveDIDFromLog(log, { verifier: options.verifier, witnessProofs: options.witnessProofs, allowLegacyEntryHash: options.allowLegacyEntryHash })).meta;
   if (lastMeta.deactivated) {
     throw new Error('Cannot update deactivated DID');
   }
+  validateTtl(options.ttl);
+  if (options.witness?.witnesses?.length) {
+    validateWitnessParameter(options.witness);
+  }
   const versionNumber = log.length + 1;
   const createdDate = createDate(options.updated);
   const watchersValue = options.watchers !== undefined ? options.watchers : lastMeta.watchers;
+  const witnessValue = options.witness !== undefined ? options.witness : lastMeta.witness;
   const params = {
     updateKeys: options.updateKeys ?? [],
     nextKeyHashes: options.nextKeyHashes ?? [],
-    witness: (options.witness !== undefined && options.witness !== null) ? {
-      witnesses: options.witness?.witnesses || [],
-      threshold: options.witness?.threshold || 0
+    witness: (witnessValue !== undefined && witnessValue !== null) ? {
+      witnesses: witnessValue?.witnesses || [],
+      threshold: Number(witnessValue?.threshold || 0)
     } : {},
-    watchers: watchersValue ?? []
+    watchers: watchersValue ?? [],
+    ...(options.ttl !== undefined ? { ttl: options.ttl } : {})
   };
   
   // Safety guard: Strip secret keys from verification methods before creating DID document  
   const safeVerificationMethods = options.verificationMethods?.map(vm => {
+    if (isJsonWebKeyVerificationMethod(vm)) {
+      if (vm.publicKeyJwk.d) {
+        console.warn('Warning: Removing private key (d) from publicKeyJwk - secret keys should not be stored in DID documents');
+        const { d, ...publicKeyJwk } = vm.publicKeyJwk;
+        return { ...vm, publicKeyJwk };
+      }
+      return vm;
+    }
     if (vm.secretKeyMultibase) {
       console.warn('Warning: Removing secretKeyMultibase from verification method - secret keys should not be stored in DID documents');
       const { secretKeyMultibase, ...safeVm } = vm;
@@ -376,20 +454,20 @@ export const updateDID = async (options: UpdateDIDInterface & { services?: any[]
   }
 
   const logEntry: DIDLogEntry = {
-    versionId: PLACEHOLDER,
+    versionId: lastEntry.versionId,
     versionTime: createdDate,
     parameters: params,
     state: doc
   };
-  const logEntryHash = await deriveHash(logEntry);
+  const logEntryHash = await deriveHash(logEntry, getLogHashAlgorithm(log));
   const versionId = `${versionNumber}-${logEntryHash}`;
   const prelimEntry = { ...logEntry, versionId };
-  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
-  let allProofs = [{ type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
+  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
+  let allProofs = [{ type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
   prelimEntry.proof = allProofs;
   const verified = await documentStateIsValid(
     prelimEntry, 
-    lastMeta.updateKeys, 
+    lastMeta.prerotation ? params.updateKeys : lastMeta.updateKeys, 
     lastMeta.witness,
     true, // skipWitnessVerification
     options.verifier
@@ -417,10 +495,77 @@ export const updateDID = async (options: UpdateDIDInterface & { services?: any[]
   }
 }
 
+export const rotateUpdateKeys = async (options: RotateUpdateKeysInterface): Promise<{did: string, doc: any, meta: DIDResolutionMeta, log: DIDLog}> => {
+  const log = options.log;
+  const lastEntry = log[log.length - 1];
+  const lastMeta = (await resolveDIDFromLog(log, { verifier: options.verifier, witnessProofs: options.witnessProofs, allowLegacyEntryHash: options.allowLegacyEntryHash })).meta;
+  if (lastMeta.deactivated) {
+    throw new Error('Cannot rotate keys of deactivated DID');
+  }
+  if (options.newUpdateKeys.length === 0) {
+    throw new Error('At least one new update key is required');
+  }
+  if (lastMeta.prerotation) {
+    for (const key of options.newUpdateKeys) {
+      if (!await isKeyInNextKeyHashes(key, lastMeta.nextKeyHashes)) {
+        throw new UnauthorizedKeyError(`Update key ${key} was not committed to in nextKeyHashes ${lastMeta.nextKeyHashes}`);
+      }
+    }
+  }
+
+  const versionNumber = log.length + 1;
+  const createdDate = createDate(options.updated);
+  const params = {
+    updateKeys: options.newUpdateKeys,
+    nextKeyHashes: await Promise.all((options.nextUpdateKeys ?? []).map(key => deriveNextKeyHash(key, getLogHashAlgorithm(log))))
+  };
+  const logEntry: DIDLogEntry = {
+    versionId: lastEntry.versionId,
+    versionTime: createdDate,
+    parameters: params,
+    state: lastEntry.state
+  };
+  const logEntryHash = await deriveHash(logEntry, getLogHashAlgorithm(log));
+  const versionId = `${versionNumber}-${logEntryHash}`;
+  const prelimEntry = { ...logEntry, versionId };
+  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
+  prelimEntry.proof = [{ type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
+
+  // With pre-rotation active the entry is signed by one of the keys it activates
+  const verified = await documentStateIsValid(
+    prelimEntry,
+    lastMeta.prerotation ? params.updateKeys : lastMeta.updateKeys,
+    lastMeta.witness,
+    true, // skipWitnessVerification
+    options.verifier
+  );
+  if (!verified) {
+    throw new Error(`version ${prelimEntry.versionId} is invalid.`)
+  }
+
+  const meta: DIDResolutionMeta = {
+    ...lastMeta,
+    versionId: prelimEntry.versionId,
+    updated: prelimEntry.versionTime,
+    prerotation: params.nextKeyHashes.length > 0,
+    ...params
+  };
+
+  return {
+    did: prelimEntry.state.id!,
+    doc: prelimEntry.state,
+    meta,
+    log: [
+      ...log,
+      prelimEntry
+    ]
+  }
+}
+
 export const deactivateDID = async (options: DeactivateDIDInterface & { updateKeys?: string[] }): Promise<{did: string, doc: any, meta: DIDResolutionMeta, log: DIDLog}> => {
   const log = options.log;
   const lastEntry = log[log.length - 1];
-  const lastMeta = (await resolveDIDFromLog(log, { verifier: options.verifier })).meta;
+  const lastMeta = (await resolveDIDFromLog(log, { verifier: options.verifier, allowLegacyEntryHash: options.allowLegacyEntryHash })).meta;
   if (lastMeta.deactivated) {
     throw new Error('DID already deactivated');
   }
@@ -431,21 +576,21 @@ export const deactivateDID = async (options: DeactivateDIDInterface & { updateKe
     deactivated: true
   };
   const logEntry: DIDLogEntry = {
-    versionId: PLACEHOLDER,
+    versionId: lastEntry.versionId,
     versionTime: createdDate,
     parameters: params,
     state: lastEntry.state
   };
-  const logEntryHash = await deriveHash(logEntry);
+  const logEntryHash = await deriveHash(logEntry, getLogHashAlgorithm(log));
   const versionId = `${versionNumber}-${logEntryHash}`;
   const prelimEntry = { ...logEntry, versionId };
-  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
-  let allProofs = [{ type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022', verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
+  const signedProof = await options.signer.sign({ document: prelimEntry, proof: { type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod' } });
+  let allProofs = [{ type: 'DataIntegrityProof', cryptosuite: getCryptosuiteForVerificationMethod(options.signer.getVerificationMethodId()), verificationMethod: options.signer.getVerificationMethodId(), created: createdDate, proofPurpose: 'assertionMethod', proofValue: signedProof.proofValue }];
   prelimEntry.proof = allProofs;
 
   const verified = await documentStateIsValid(
     prelimEntry, 
-    lastMeta.updateKeys, 
+    lastMeta.prerotation ? params.updateKeys : lastMeta.updateKeys, 
     lastMeta.witness,
     true, // skipWitnessVerification
     options.verifier
@@ -471,4 +616,138 @@ export const deactivateDID = async (options: DeactivateDIDInterface & { updateKe
       prelimEntry
     ]
   }
-} 
\ No newline at end of file
+} 
+// Runs a single check of the log verification report, turning a thrown error or a false result into a failed check
+const runCheck = async (check: () => Promise<boolean> | boolean, message: string): Promise<LogCheckResult> => {
+  try {
+    return await check() ? { valid: true } : { valid: false, error: message };
+  } catch (e: any) {
+    return { valid: false, error: e.message, ...(e instanceof DIDResolutionError ? { code: e.code } : {}) };
+  }
+};
+
+// Reports the approvals of one witness requirement, from the approvals found for the whole log
+const checkWitnessApprovals = (requirement: WitnessRequirement, approvals: WitnessApprovals): LogWitnessReport => {
+  const threshold = parseInt(requirement.witness.threshold?.toString() ?? '0');
+  const approvedBy = getApprovedBy(requirement, approvals.latest);
+  const errors = approvals.invalid
+    .filter(({ index, witnessId }) => index >= requirement.index && findWitness(witnessId, requirement.witness.witnesses))
+    .map(({ versionId, error }) => `${versionId}: ${error.message}`);
+  const report = { threshold, approvals: approvedBy.length, approvedBy };
+  if (errors.length > 0) {
+    return { ...report, valid: false, code: 'INVALID_DID', error: errors.join('; ') };
+  }
+  const missing = getMissingApprovals(requirement, approvals.latest);
+  if (missing) {
+    return { ...report, valid: false, code: 'INVALID_DID', error: missing };
+  }
+  return { ...report, valid: true };
+};
+
+// Returns the parameters an entry sets to a different value than the one in effect before it
+const getParameterChanges = (previous: Record<string, any>, parameters: Record<string, any>) => {
+  const changes: Record<string, { from?: any; to: any }> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    if (!(name in previous)) {
+      changes[name] = { to: value };
+    } else if (canonicalize(previous[name]) !== canonicalize(value)) {
+      changes[name] = { from: previous[name], to: value };
+    }
+  }
+  return changes;
+};
+
+/**
+ * Verifies every entry of a DID log without stopping at the first failure
+ * @param log - The DID log
+ * @param options - The verifier, and the witness proofs or a fetcher to retrieve them
+ * @returns A report with the result of each check for each entry and an overall verdict
+ */
+export const verifyLog = async (log: DIDLog, options: VerifyLogOptions = {}): Promise<LogVerificationReport> => {
+  if (!options.verifier) {
+    throw new Error('Verifier implementation is required');
+  }
+  const maxClockSkew = options.maxClockSkew ?? DEFAULT_MAX_CLOCK_SKEW;
+  const did: string = log[0]?.state?.id ?? '';
+  const scid: string = log[0]?.parameters?.scid ?? '';
+  const entries: LogEntryReport[] = [];
+  let parameters: Record<string, any> = {};
+  let updateKeys: string[] = [];
+  let nextKeyHashes: string[] = [];
+  let witness: WitnessParameterResolution | undefined;
+  let witnessProofs = options.witnessProofs;
+  let host = '';
+  const witnessRequirements: WitnessRequirement[] = [];
+  // The same recursion guard the resolver uses
+  const resolving = [...options.resolving ?? [], did];
+
+  for (let i = 0; i < log.length; i++) {
+    const entry = log[i];
+    const version = entry.versionId.split('-')[0];
+    const entryHost = entry.state?.id?.split(':').at(-1) ?? '';
+    const authorizedKeys: string[] = i > 0 && nextKeyHashes.length === 0 ? updateKeys : entry.parameters.updateKeys ?? [];
+    const checks: LogEntryReport['checks'] = {
+      versionNumber: await runCheck(() => parseInt(version) === i + 1, `version '${version}' in log doesn't match expected '${i + 1}'`),
+      hashChain: { valid: true },
+      timestamps: await runCheck(() => timestampsAreValid(entry, log[i - 1]?.versionTime, maxClockSkew), 'Invalid timestamps'),
+      proof: {
+        ...await runCheck(() => documentStateIsValid(entry, authorizedKeys, i === 0 ? entry.parameters.witness : witness, false, options.verifier, options.fetcher), `version ${entry.versionId} failed verification of the proof`),
+        authorizedKeys,
+        signers: [].concat(entry.proof ?? [] as any).map(({ verificationMethod, cryptosuite, created }: DataIntegrityProof) => ({ verificationMethod, cryptosuite, created }))
+      }
+    };
+
+    if (i === 0) {
+      const { proof, ...rest } = entry;
+      const logEntry = replaceValueInObject({ ...rest, versionId: PLACEHOLDER }, scid, PLACEHOLDER);
+      checks.scid = await runCheck(async () => scidIsFromHash(scid, await deriveHash(logEntry, getHashAlgorithm(scid))), `SCID '${scid}' not derived from the first entry`);
+      checks.hashChain = await runCheck(() => entryHashIsValid(entry, scid, options.allowLegacyEntryHash), `Hash chain broken at '${entry.versionId}'`);
+      host = entryHost;
+    } else {
+      checks.hashChain = await runCheck(() => entryHashIsValid(entry, log[i - 1].versionId, options.allowLegacyEntryHash), `Hash chain broken at '${entry.versionId}'`);
+      if (nextKeyHashes.length > 0) {
+        checks.prerotation = await runCheck(() => newKeysAreInNextKeys(entry.parameters.updateKeys ?? [], nextKeyHashes), 'Update keys not found in nextKeyHashes');
+      }
+      checks.portability = await runCheck(() => parameters.portable === true || entryHost === host, 'Cannot move DID: portability is disabled');
+      host = entryHost;
+    }
+
+    // Apply the parameters the same way resolution does
+    const parameterChanges = getParameterChanges(parameters, entry.parameters);
+    parameters = { ...parameters, ...entry.parameters };
+    updateKeys = entry.parameters.updateKeys ?? updateKeys;
+    nextKeyHashes = entry.parameters.nextKeyHashes ?? [];
+    const previousWitness = witness;
+    if ('witness' in entry.parameters) {
+      witness = entry.parameters.witness;
+    }
+
+    witnessRequirements.push(...getWitnessRequirements(i, witness, previousWitness));
+
+    entries.push({
+      versionId: entry.versionId,
+      versionTime: entry.versionTime,
+      valid: Object.values(checks).every(check => check.valid),
+      checks,
+      parameterChanges
+    });
+  }
+
+  // The witness proofs are counted the same way resolution counts them
+  if (witnessRequirements.length > 0) {
+    witnessProofs ??= await fetchWitnessProofs(did, options.fetcher);
+    const approvals = await getWitnessApprovals(log, witnessRequirements, witnessProofs, options.verifier, options.fetcher, resolving);
+    for (const requirement of witnessRequirements) {
+      const entry = entries[requirement.index];
+      entry.checks[requirement.previous ? 'previousWitnesses' : 'witnesses'] = checkWitnessApprovals(requirement, approvals);
+      entry.valid = Object.values(entry.checks).every(check => check.valid);
+    }
+  }
+
+  return {
+    did,
+    scid,
+    valid: entries.length > 0 && entries.every(entry => entry.valid),
+    entries
+  };
+};
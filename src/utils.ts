@@ -1,11 +1,13 @@
 import { canonicalize } from 'json-canonicalize';
 import { config } from './config';
 import { resolveDIDFromLog } from './method';
-import type { CreateDIDInterface, DIDDoc, DIDLog, VerificationMethod, WitnessProofFileEntry } from './interfaces';
-import { BASE_CONTEXT } from './constants';
-import { createBuffer, bufferToString } from './utils/buffer';
-import { createMultihash, encodeBase58Btc, MultihashAlgorithm } from './utils/multiformats';
+import type { AnyVerificationMethod, CreateDIDInterface, DIDDoc, DIDLog, LogFetcher, Verifier, WitnessProofFileEntry } from './interfaces';
+import { defaultLogFetcher } from './fetcher';
+import { BASE_CONTEXT, DEFAULT_TTL, JWK_CONTEXT } from './constants';
+import { createMultihash, decodeBase58Btc, decodeMultihash, encodeBase58Btc, MultihashAlgorithm } from './utils/multiformats';
 import { createHash } from './utils/crypto';
+import { createJwkThumbprint, isJsonWebKeyVerificationMethod } from './utils/jwk';
+import { InvalidDIDError, NotFoundError } from './errors';
 
 // Environment detection - treat React Native like a browser, but Bun as Node-like
 const isNodeEnvironment = typeof process !== 'undefined'
@@ -19,7 +21,7 @@ const fsModuleSpecifier = ['node', 'fs'].join(':');
 let fsModule: any | null = null;
 let fsImportPromise: Promise<any> | null = null;
 
-const getFS = async (): Promise<any> => {
+export const getFS = async (): Promise<any> => {
   if (!isNodeEnvironment) {
     throw new Error('Filesystem access is not available in this environment (React Native, browser, or failed Node.js import)');
   }
@@ -112,65 +114,6 @@ export const maybeWriteTestLog = async (did: string, log: DIDLog) => {
   }
 };
 
-export const writeVerificationMethodToEnv = async (verificationMethod: VerificationMethod) => {
-  const envFilePath = process.cwd() + '/.env';
-  
-  const vmData = {
-    id: verificationMethod.id,
-    type: verificationMethod.type,
-    controller: verificationMethod.controller || '',
-    publicKeyMultibase: verificationMethod.publicKeyMultibase,
-    secretKeyMultibase: verificationMethod.secretKeyMultibase || ''
-  };
-
-  const fs = await getFS();
-  try {
-    let envContent = '';
-    let existingData: any[] = [];
-    
-    if (fs.existsSync(envFilePath)) {
-      envContent = fs.readFileSync(envFilePath, 'utf8');
-      const match = envContent.match(/DID_VERIFICATION_METHODS=(.*)/);
-      if (match && match[1]) {
-        const decodedData = bufferToString(createBuffer(match[1], 'base64'));
-        existingData = JSON.parse(decodedData);
-        
-        // Check if verification method with same ID already exists
-        const existingIndex = existingData.findIndex(vm => vm.id === vmData.id);
-        if (existingIndex !== -1) {
-          // Update existing verification method
-          existingData[existingIndex] = vmData;
-        } else {
-          // Add new verification method
-          existingData.push(vmData);
-        }
-      } else {
-        // No existing verification methods, create new array
-        existingData = [vmData];
-      }
-    } else {
-      // No .env file exists, create new array
-      existingData = [vmData];
-    }
-    
-    const jsonData = JSON.stringify(existingData);
-    const encodedData = bufferToString(createBuffer(jsonData), 'base64');
-    
-    // If DID_VERIFICATION_METHODS already exists, replace it
-    if (envContent.includes('DID_VERIFICATION_METHODS=')) {
-      envContent = envContent.replace(/DID_VERIFICATION_METHODS=.*\n?/, `DID_VERIFICATION_METHODS=${encodedData}\n`);
-    } else {
-      // Otherwise append it
-      envContent += `DID_VERIFICATION_METHODS=${encodedData}\n`;
-    }
-
-    fs.writeFileSync(envFilePath, envContent.trim() + '\n');
-    console.log('Verification method written to .env file successfully.');
-  } catch (error) {
-    console.error('Error writing verification method to .env file:', error);
-  }
-};
-
 export const clone = (input: any) => JSON.parse(JSON.stringify(input));
 
 export function deepClone(obj: any): any {
@@ -188,7 +131,7 @@ export function deepClone(obj: any): any {
 export const getBaseUrl = (id: string) => {
   const parts = id.split(':');
   if (!id.startsWith('did:webvh:') || parts.length < 4) {
-    throw new Error(`${id} is not a valid did:webvh identifier`);
+    throw new InvalidDIDError(`${id} is not a valid did:webvh identifier`);
   }
 
   let remainder = decodeURIComponent(parts.slice(3).join('/'));
@@ -218,7 +161,31 @@ export const getFileUrl = (id: string) => {
   return `${baseUrl}/.well-known/did.jsonl`;
 }
 
-export async function fetchLogFromIdentifier(identifier: string, controlled: boolean = false): Promise<DIDLog> {
+export const addDefaultServices = (doc: any) => {
+  doc.service = doc.service || [];
+  const baseUrl = getBaseUrl(doc.id);
+
+  if (!doc.service.some((s: any) => s.id === '#files')) {
+    doc.service.push({
+      id: '#files',
+      type: 'relativeRef',
+      serviceEndpoint: baseUrl
+    });
+  }
+
+  if (!doc.service.some((s: any) => s.id === '#whois')) {
+    doc.service.push({
+      "@context": "https://identity.foundation/linked-vp/contexts/v1",
+      id: '#whois',
+      type: 'LinkedVerifiablePresentation',
+      serviceEndpoint: `${baseUrl}/whois.vp`
+    });
+  }
+
+  return doc;
+}
+
+export async function fetchLogFromIdentifier(identifier: string, controlled: boolean = false, fetcher: LogFetcher = defaultLogFetcher): Promise<DIDLog> {
   try {
     if (controlled) {
       const didParts = identifier.split(':');
@@ -245,14 +212,9 @@ export async function fetchLogFromIdentifier(identifier: string, controlled: boo
     }
 
     const url = getFileUrl(identifier);
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const text = (await response.text()).trim();
+    const text = (await fetcher.fetch(url))?.trim();
     if (!text) {
-      throw new Error(`DID log not found for ${identifier}`);
+      throw new NotFoundError(`DID log not found for ${identifier}`);
     }
     return text.split('\n').map(line => JSON.parse(line));
   } catch (error) {
@@ -261,6 +223,22 @@ export async function fetchLogFromIdentifier(identifier: string, controlled: boo
   }
 }
 
+export async function fetchLogIfModified(identifier: string, etag?: string, fetcher: LogFetcher = defaultLogFetcher): Promise<{log?: DIDLog, etag?: string, notModified: boolean}> {
+  const url = getFileUrl(identifier);
+  const result = fetcher.fetchIfModified
+    ? await fetcher.fetchIfModified(url, etag)
+    : { content: await fetcher.fetch(url) };
+  if (result.notModified) {
+    return { etag, notModified: true };
+  }
+
+  const text = result.content?.trim();
+  if (!text) {
+    throw new NotFoundError(`DID log not found for ${identifier}`);
+  }
+  return { log: readLogFromString(text), etag: result.etag, notModified: false };
+}
+
 export const createDate = (created?: Date | string) => new Date(created ?? Date.now()).toISOString().slice(0,-5)+'Z';
 
 export function bytesToHex(bytes: Uint8Array): string {
@@ -274,51 +252,86 @@ export const createSCID = async (logEntryHash: string): Promise<string> => {
 // Cache for deriveHash operations to avoid redundant computation
 const hashCache = new Map<string, string>();
 
-function getCachedHash(input: any): string | undefined {
+function getCachedHash(input: any, algorithm: MultihashAlgorithm): string | undefined {
   try {
-    const key = JSON.stringify(input);
+    const key = `${algorithm}:${JSON.stringify(input)}`;
     return hashCache.get(key);
   } catch {
     return undefined;
   }
 }
 
-function setCachedHash(input: any, hash: string): void {
+function setCachedHash(input: any, algorithm: MultihashAlgorithm, hash: string): void {
   try {
-    const key = JSON.stringify(input);
+    const key = `${algorithm}:${JSON.stringify(input)}`;
     hashCache.set(key, hash);
   } catch {
     // Ignore caching errors
   }
 }
 
-export async function deriveHash(input: any): Promise<string> {
-  const cached = getCachedHash(input);
+export async function deriveHash(input: any, algorithm: MultihashAlgorithm = MultihashAlgorithm.SHA2_256): Promise<string> {
+  const cached = getCachedHash(input, algorithm);
   if (cached) {
     return cached;
   }
   
   const data = canonicalize(input);
-  const hash = await createHash(data);
-  const multihash = createMultihash(new Uint8Array(hash), MultihashAlgorithm.SHA2_256);
+  const hash = await createHash(data, algorithm);
+  const multihash = createMultihash(new Uint8Array(hash), algorithm);
   const result = encodeBase58Btc(multihash);
-  setCachedHash(input, result);
+  setCachedHash(input, algorithm, result);
   return result;
 }
 
-export const deriveNextKeyHash = async (input: string): Promise<string> => {
-  const hash = await createHash(input);
-  const multihash = createMultihash(new Uint8Array(hash), MultihashAlgorithm.SHA2_256);
+export const deriveNextKeyHash = async (input: string, algorithm: MultihashAlgorithm = MultihashAlgorithm.SHA2_256): Promise<string> => {
+  const hash = await createHash(input, algorithm);
+  const multihash = createMultihash(new Uint8Array(hash), algorithm);
   return encodeBase58Btc(multihash);
 }
 
+/**
+ * Reads the algorithm from the multihash prefix of a base58btc encoded hash (an entry hash, SCID or next key hash)
+ * @param hash - The encoded multihash
+ * @returns The multihash algorithm, or undefined if the hash isn't a supported multihash
+ */
+export const getHashAlgorithm = (hash: string): MultihashAlgorithm | undefined => {
+  try {
+    return decodeMultihash(decodeBase58Btc(hash)).algorithm;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks a key against nextKeyHashes, hashing it with the algorithm of each committed hash
+ * @param key - The update key
+ * @param nextKeyHashes - The committed next key hashes
+ * @returns true if the key was committed to
+ */
+export const isKeyInNextKeyHashes = async (key: string, nextKeyHashes: string[]): Promise<boolean> => {
+  for (const nextKeyHash of nextKeyHashes) {
+    if (nextKeyHash === await deriveNextKeyHash(key, getHashAlgorithm(nextKeyHash))) {
+      return true;
+    }
+  }
+  return false;
+}
+
 export const createDIDDoc = async (options: CreateDIDInterface): Promise<{doc: DIDDoc}> => {
   const {controller} = options;
   const all = normalizeVMs(options.verificationMethods, controller);
 
+  // JsonWebKey verification methods need the JWK context
+  let context = options.context || BASE_CONTEXT;
+  if (all.verificationMethod.some(isJsonWebKeyVerificationMethod)) {
+    const contexts = Array.isArray(context) ? context : [context];
+    context = contexts.includes(JWK_CONTEXT) ? contexts : [...contexts, JWK_CONTEXT];
+  }
+
   // Create the base document
   const doc: DIDDoc = {
-    "@context": options.context || BASE_CONTEXT,
+    "@context": context,
     id: controller,
     controller,
   };
@@ -381,11 +394,14 @@ export const generateRandomId = (length: number = 8): string => {
   return result;
 };
 
-export const createVMID = (vm: VerificationMethod, did: string | null) => {
+export const createVMID = (vm: AnyVerificationMethod, did: string | null) => {
+  if (isJsonWebKeyVerificationMethod(vm)) {
+    return `${did ?? ''}#${createJwkThumbprint(vm.publicKeyJwk)}`;
+  }
   return `${did ?? ''}#${vm.publicKeyMultibase?.slice(-8) || generateRandomId(8)}`
 }
 
-export const normalizeVMs = (verificationMethod: VerificationMethod[] | undefined, did: string | null = null) => {
+export const normalizeVMs = (verificationMethod: AnyVerificationMethod[] | undefined, did: string | null = null) => {
   const all: any = {
     verificationMethod: [],
     authentication: [],
@@ -399,6 +415,15 @@ export const normalizeVMs = (verificationMethod: VerificationMethod[] | undefine
     return all;
   }
   
+  // Accept the legacy publicKeyJWK casing
+  verificationMethod = verificationMethod.map(vm => {
+    if (isJsonWebKeyVerificationMethod(vm) || !vm.publicKeyJWK) {
+      return vm;
+    }
+    const { publicKeyJWK, ...rest } = vm;
+    return { ...rest, publicKeyJwk: publicKeyJWK } as AnyVerificationMethod;
+  });
+
   // First collect all VMs
   const vms = verificationMethod.map(vm => ({
     ...vm,
@@ -430,25 +455,61 @@ export const normalizeVMs = (verificationMethod: VerificationMethod[] | undefine
   return all;
 };
 
-export const resolveVM = async (vm: string) => {
+// The did:webvh verification methods resolved through each fetcher, so a witness's key isn't resolved again for every proof.
+// Each is kept for the ttl of its DID
+const vmCache = new WeakMap<LogFetcher, Map<string, { vm: AnyVerificationMethod, expires: number }>>();
+
+/**
+ * Resolves the verification method of a proof. did:key methods are decoded from the DID, did:webvh
+ * methods must be in the latest version of the DID, whose whole log is verified and which can in turn
+ * need the keys of its own witnesses. A deactivated did:webvh DID has no verification methods
+ * @param vm - The verification method id
+ * @param fetcher - Retrieves the DID logs
+ * @param verifier - Verifies the did:webvh logs
+ * @param resolving - The did:webvh DIDs being resolved that led to this one, to stop witnesses that witness each other from looping
+ * @returns The verification method
+ */
+export const resolveVM = async (vm: string, fetcher: LogFetcher = defaultLogFetcher, verifier?: Verifier, resolving: string[] = []) => {
   try {
     if (vm.startsWith('did:key:')) {
-      return {publicKeyMultibase: vm.split('did:key:')[1].split('#')[0]}
+      return { type: 'Multikey', publicKeyMultibase: vm.split('did:key:')[1].split('#')[0] } as AnyVerificationMethod;
     }
     else if (vm.startsWith('did:webvh:')) {
-      const url = getFileUrl(vm.split('#')[0]);
-      const didLog = await (await fetch(url)).text();
-      const logEntries: DIDLog = didLog.trim().split('\n').map(l => JSON.parse(l));
-      const {doc} = await resolveDIDFromLog(logEntries, {verificationMethod: vm});
-      return findVerificationMethod(doc, vm);
+      const did = vm.split('#')[0];
+      if (resolving.includes(did)) {
+        throw new Error(`${did} is already being resolved (${[...resolving, did].join(' -> ')})`);
+      }
+      const cache = vmCache.get(fetcher) ?? new Map<string, { vm: AnyVerificationMethod, expires: number }>();
+      vmCache.set(fetcher, cache);
+      const cached = cache.get(vm);
+      if (cached && cached.expires > Date.now()) {
+        return cached.vm;
+      }
+
+      const url = getFileUrl(did);
+      const didLog = await fetcher.fetch(url);
+      if (didLog === null) {
+        throw new Error(`DID log not found at ${url}`);
+      }
+      const logEntries: DIDLog = readLogFromString(didLog);
+      // A key that was rotated out, or a later entry that doesn't verify, must not count
+      const {doc, meta} = await resolveDIDFromLog(logEntries, {fetcher, verifier, resolving});
+      if (meta.deactivated) {
+        throw new Error(`${did} is deactivated`);
+      }
+      const method = findVerificationMethod(doc, vm);
+      if (method) {
+        cache.set(vm, { vm: method, expires: Date.now() + (meta.ttl ?? DEFAULT_TTL) * 1000 });
+      }
+      return method;
     }
     throw new Error(`Verification method ${vm} not found`);
-  } catch (e) {
-    throw new Error(`Error resolving VM ${vm}`)
+  } catch (e: any) {
+    throw new Error(`Error resolving VM ${vm}: ${e.message}`)
   }
 }
 
-export const findVerificationMethod = (doc: any, vmId: string): VerificationMethod | null => {
+export const findVerificationMethod = (doc: any, vmId: string): AnyVerificationMethod | null => {
   // Check in the verificationMethod array
   if (doc.verificationMethod && doc.verificationMethod.some((vm: any) => vm.id === vmId)) {
     return doc.verificationMethod.find((vm: any) => vm.id === vmId);
@@ -467,31 +528,16 @@ export const findVerificationMethod = (doc: any, vmId: string): VerificationMeth
   return null;
 }
 
-export async function getActiveDIDs(): Promise<string[]> {
-  const activeDIDs: string[] = [];
-  
-  try {
-    for (const vm of config.getVerificationMethods()) {
-      const did = vm.controller || vm.id.split('#')[0];
-      activeDIDs.push(did);
-    }
-  } catch (error) {
-    console.error('Error processing verification methods:', error);
-  }
-  
-  return activeDIDs;
-}
-
-export async function fetchWitnessProofs(did: string): Promise<WitnessProofFileEntry[]> {
+export async function fetchWitnessProofs(did: string, fetcher: LogFetcher = defaultLogFetcher): Promise<WitnessProofFileEntry[]> {
   try {
     const url = getFileUrl(did).replace('did.jsonl', 'did-witness.json');
     
-    const response = await fetch(url);
-    if (!response.ok) {
+    const text = await fetcher.fetch(url);
+    if (text === null) {
       return [];
     }
     
-    return await response.json();
+    return JSON.parse(text);
   } catch (error) {
     console.error('Error fetching witness proofs:', error);
     return [];
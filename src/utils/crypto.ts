@@ -1,5 +1,7 @@
 /// <reference lib="dom" />
-import { sha256 } from '@noble/hashes/sha2';
+import { sha256, sha384 } from '@noble/hashes/sha2';
+import { sha3_256, sha3_384 } from '@noble/hashes/sha3';
+import { MultihashAlgorithm } from './multiformats';
 
 function arrayBufferToHex(buffer: ArrayBufferLike | Uint8Array): string {
   const view = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
@@ -8,8 +10,19 @@ function arrayBufferToHex(buffer: ArrayBufferLike | Uint8Array): string {
     .join('');
 }
 
-export async function createHash(data: string): Promise<Uint8Array> {
-  return sha256(data);
+export async function createHash(data: string, algorithm: MultihashAlgorithm = MultihashAlgorithm.SHA2_256): Promise<Uint8Array> {
+  switch (algorithm) {
+    case MultihashAlgorithm.SHA2_256:
+      return sha256(data);
+    case MultihashAlgorithm.SHA2_384:
+      return sha384(data);
+    case MultihashAlgorithm.SHA3_256:
+      return sha3_256(data);
+    case MultihashAlgorithm.SHA3_384:
+      return sha3_384(data);
+    default:
+      throw new Error(`Unsupported hash algorithm 0x${(algorithm as number).toString(16)}`);
+  }
 }
 
 export async function createHashHex(data: string): Promise<string> {
@@ -0,0 +1,102 @@
+import { canonicalize } from 'json-canonicalize';
+import { sha256 } from '@noble/hashes/sha2';
+import { p256, p384 } from '@noble/curves/nist';
+import type { AnyVerificationMethod, JsonWebKeyVerificationMethod, KeyType, PublicKeyJwk } from '../interfaces';
+import { decodeBase64Url, decodeMultikey, encodeBase64Url, encodeMultikey } from './multiformats';
+
+const EC_CURVES = {
+  'P-256': p256,
+  'P-384': p384
+};
+
+/**
+ * Gets the key type of a public JWK
+ * @param jwk - An OKP Ed25519 or EC P-256/P-384 JWK
+ * @returns The key type
+ */
+export function getJwkKeyType(jwk: PublicKeyJwk): KeyType {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return 'Ed25519';
+  }
+  if (jwk.kty === 'EC' && (jwk.crv === 'P-256' || jwk.crv === 'P-384')) {
+    return jwk.crv;
+  }
+  throw new Error(`Unsupported JWK ${jwk.kty}/${jwk.crv}`);
+}
+
+/**
+ * Converts a public JWK to a Multikey. EC keys are compressed
+ * @param jwk - An OKP Ed25519 or EC P-256/P-384 JWK
+ * @returns The base58btc publicKeyMultibase
+ */
+export function jwkToMultikey(jwk: PublicKeyJwk): string {
+  const keyType = getJwkKeyType(jwk);
+  const x = decodeBase64Url(jwk.x);
+  if (keyType === 'Ed25519') {
+    return encodeMultikey(keyType, x);
+  }
+  if (!jwk.y) {
+    throw new Error(`EC JWK is missing the y coordinate`);
+  }
+  const y = decodeBase64Url(jwk.y);
+  return encodeMultikey(keyType, new Uint8Array([y[y.length - 1] % 2 === 0 ? 0x02 : 0x03, ...x]));
+}
+
+/**
+ * Converts a Multikey public key to a JWK
+ * @param publicKeyMultibase - An Ed25519, P-256 or P-384 publicKeyMultibase
+ * @returns The public JWK
+ */
+export function multikeyToJwk(publicKeyMultibase: string): PublicKeyJwk {
+  const { keyType, key, secret } = decodeMultikey(publicKeyMultibase);
+  if (secret) {
+    throw new Error('Only public keys can be converted to a JWK');
+  }
+  if (keyType === 'Ed25519') {
+    return { kty: 'OKP', crv: 'Ed25519', x: encodeBase64Url(key) };
+  }
+  const point = EC_CURVES[keyType].ProjectivePoint.fromHex(key).toRawBytes(false);
+  const size = (point.length - 1) / 2;
+  return {
+    kty: 'EC',
+    crv: keyType,
+    x: encodeBase64Url(point.slice(1, 1 + size)),
+    y: encodeBase64Url(point.slice(1 + size))
+  };
+}
+
+/**
+ * Computes the RFC 7638 thumbprint of a public JWK
+ * @param jwk - An OKP or EC JWK
+ * @returns The base64url encoded SHA-256 thumbprint
+ */
+export function createJwkThumbprint(jwk: PublicKeyJwk): string {
+  const members = jwk.kty === 'EC'
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+  return encodeBase64Url(sha256(new TextEncoder().encode(canonicalize(members))));
+}
+
+/**
+ * Tells JsonWebKey verification methods from Multikey ones
+ * @param vm - The verification method
+ * @returns Whether the verification method has a publicKeyJwk
+ */
+export function isJsonWebKeyVerificationMethod(vm: AnyVerificationMethod): vm is JsonWebKeyVerificationMethod {
+  return !!(vm as JsonWebKeyVerificationMethod).publicKeyJwk;
+}
+
+/**
+ * Gets the public key of a Multikey or JsonWebKey verification method as a Multikey
+ * @param vm - The verification method
+ * @returns The publicKeyMultibase, converted from publicKeyJwk if needed
+ */
+export function getPublicKeyMultibase(vm: AnyVerificationMethod): string {
+  if (isJsonWebKeyVerificationMethod(vm)) {
+    return jwkToMultikey(vm.publicKeyJwk);
+  }
+  if (!vm.publicKeyMultibase) {
+    throw new Error('Verification method has no publicKeyMultibase or publicKeyJwk');
+  }
+  return vm.publicKeyMultibase;
+}
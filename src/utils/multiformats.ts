@@ -5,6 +5,8 @@
  * as specified in the DID:WebVH method specification.
  */
 
+import type { KeyType } from '../interfaces';
+
 // ===== MULTIBASE IMPLEMENTATION =====
 
 /**
@@ -40,7 +42,7 @@ export function encodeBase64Url(bytes: Uint8Array): string {
  * @param str - The base64url encoded string
  * @returns The decoded binary data
  */
-function decodeBase64Url(str: string): Uint8Array {
+export function decodeBase64Url(str: string): Uint8Array {
   // Add padding if necessary
   const padding = str.length % 4 === 0 ? 0 : 4 - (str.length % 4);
   const base64 = str.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat(padding);
@@ -339,4 +341,77 @@ export function decodeMultihashFromMultibase(str: string): {
     ...multihash,
     encoding
   };
-} 
\ No newline at end of file
+} 
+
+// ===== MULTIKEY IMPLEMENTATION =====
+
+/**
+ * Multicodec identifiers of the supported Multikey public and secret keys
+ */
+export enum MultikeyCodec {
+  ED25519_PUB = 0xed,
+  P256_PUB = 0x1200,
+  P384_PUB = 0x1201,
+  ED25519_PRIV = 0x1300,
+  P256_PRIV = 0x1306,
+  P384_PRIV = 0x1307
+}
+
+const PUBLIC_KEY_CODECS: Record<KeyType, MultikeyCodec> = {
+  'Ed25519': MultikeyCodec.ED25519_PUB,
+  'P-256': MultikeyCodec.P256_PUB,
+  'P-384': MultikeyCodec.P384_PUB
+};
+
+const SECRET_KEY_CODECS: Record<KeyType, MultikeyCodec> = {
+  'Ed25519': MultikeyCodec.ED25519_PRIV,
+  'P-256': MultikeyCodec.P256_PRIV,
+  'P-384': MultikeyCodec.P384_PRIV
+};
+
+/**
+ * Public key lengths (in bytes) for each key type. P-256 and P-384 keys are compressed points
+ */
+const PUBLIC_KEY_LENGTHS: Record<KeyType, number> = {
+  'Ed25519': 32,
+  'P-256': 33,
+  'P-384': 49
+};
+
+/**
+ * Encodes a key as a base58btc Multikey
+ * @param keyType - The key type
+ * @param key - The raw key bytes
+ * @param secret - Whether the key is a secret key
+ * @returns The multibase encoded key with its multicodec header
+ */
+export function encodeMultikey(keyType: KeyType, key: Uint8Array, secret = false): string {
+  const header = encodeVarint((secret ? SECRET_KEY_CODECS : PUBLIC_KEY_CODECS)[keyType]);
+  return multibaseEncode(new Uint8Array([...header, ...key]), MultibaseEncoding.BASE58_BTC);
+}
+
+/**
+ * Decodes a Multikey
+ * @param multikey - The multibase encoded key, e.g. a publicKeyMultibase
+ * @returns The key type, the raw key bytes and whether it is a secret key
+ */
+export function decodeMultikey(multikey: string): { keyType: KeyType, key: Uint8Array, secret: boolean } {
+  const { bytes } = multibaseDecode(multikey);
+  const { value: codec, bytesRead } = decodeVarint(bytes, 0);
+  const key = bytes.slice(bytesRead);
+
+  const publicKeyType = (Object.keys(PUBLIC_KEY_CODECS) as KeyType[]).find(type => PUBLIC_KEY_CODECS[type] === codec);
+  if (publicKeyType) {
+    if (key.length !== PUBLIC_KEY_LENGTHS[publicKeyType]) {
+      throw new Error(`Invalid ${publicKeyType} public key length ${key.length} (should be ${PUBLIC_KEY_LENGTHS[publicKeyType]} bytes)`);
+    }
+    return { keyType: publicKeyType, key, secret: false };
+  }
+
+  const secretKeyType = (Object.keys(SECRET_KEY_CODECS) as KeyType[]).find(type => SECRET_KEY_CODECS[type] === codec);
+  if (secretKeyType) {
+    return { keyType: secretKeyType, key, secret: true };
+  }
+
+  throw new Error(`Unsupported multikey type 0x${codec.toString(16)}`);
+}
@@ -0,0 +1,134 @@
+import { resolveDID } from './method';
+import { createDate, findVerificationMethod } from './utils';
+import { prepareDataForSigning } from './cryptography';
+import { defaultLogFetcher } from './fetcher';
+import { multibaseDecode } from './utils/multiformats';
+import { getPublicKeyMultibase } from './utils/jwk';
+import type { DataIntegrityProof, DIDDoc, ResolutionOptions, Signer, Verifier, WitnessProofFileEntry } from './interfaces';
+import { InvalidProofError, NotFoundError, UnauthorizedKeyError } from './errors';
+
+export interface WhoisPresentation {
+  "@context": string[];
+  type: string[];
+  holder: string;
+  verifiableCredential: any[];
+  proof?: DataIntegrityProof;
+}
+
+export interface CreateWhoisPresentationOptions {
+  did: string;
+  signer: Signer;
+  credentials?: any[];
+  /** The DID URL of the signing key. Defaults to the signer's verification method id */
+  verificationMethodId?: string;
+  created?: string;
+}
+
+const CREDENTIALS_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+const getAssertionMethodIds = (doc: DIDDoc): string[] => {
+  return (doc.assertionMethod ?? []).map((method: any) => typeof method === 'string' ? method : method.id);
+};
+
+/**
+ * Creates the whois Linked Verifiable Presentation published at the DID's whois.vp
+ * @param options - The DID, the credentials to present and the signer of the DID's assertionMethod key
+ * @returns The presentation with an eddsa-jcs-2022 proof
+ */
+export const createWhoisPresentation = async (options: CreateWhoisPresentationOptions): Promise<WhoisPresentation> => {
+  const verificationMethod = options.verificationMethodId ?? options.signer.getVerificationMethodId();
+  if (!verificationMethod.startsWith(`${options.did}#`)) {
+    throw new Error(`Whois presentation must be signed by a verification method of ${options.did}, got ${verificationMethod}`);
+  }
+
+  const presentation: WhoisPresentation = {
+    "@context": [CREDENTIALS_CONTEXT],
+    type: ['VerifiablePresentation'],
+    holder: options.did,
+    verifiableCredential: options.credentials ?? []
+  };
+  const proof = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    verificationMethod,
+    created: createDate(options.created),
+    proofPurpose: 'assertionMethod'
+  };
+  const { proofValue } = await options.signer.sign({ document: presentation, proof });
+  return { ...presentation, proof: { ...proof, proofValue } };
+};
+
+/**
+ * Verifies that a whois presentation was signed by an assertionMethod key of the DID document
+ * @param presentation - The whois presentation
+ * @param doc - The resolved DID document of the holder
+ * @param verifier - The verifier implementation
+ * @returns true if the presentation is valid, otherwise throws
+ */
+export const verifyWhoisPresentation = async (presentation: WhoisPresentation, doc: DIDDoc, verifier: Verifier): Promise<boolean> => {
+  const { proof, ...rest } = presentation;
+  if (presentation.holder !== doc.id) {
+    throw new InvalidProofError(`Whois presentation holder '${presentation.holder}' doesn't match '${doc.id}'`);
+  }
+  if (!proof) {
+    throw new InvalidProofError('Whois presentation has no proof');
+  }
+  if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'eddsa-jcs-2022') {
+    throw new InvalidProofError(`Unsupported whois proof ${proof.type}/${proof.cryptosuite}`);
+  }
+  if (proof.proofPurpose !== 'assertionMethod') {
+    throw new InvalidProofError(`Unknown proof purpose ${proof.proofPurpose}`);
+  }
+  if (!getAssertionMethodIds(doc).includes(proof.verificationMethod)) {
+    throw new UnauthorizedKeyError(`Key ${proof.verificationMethod} is not an assertionMethod of ${doc.id}`);
+  }
+
+  const vm = findVerificationMethod(doc, proof.verificationMethod);
+  if (!vm) {
+    throw new InvalidProofError(`Verification Method ${proof.verificationMethod} not found`);
+  }
+  const publicKey = multibaseDecode(getPublicKeyMultibase(vm)).bytes;
+  if (publicKey[0] !== 0xed || publicKey[1] !== 0x01) {
+    throw new InvalidProofError(`multiKey doesn't include ed25519 header (0xed01)`, { code: 'UNSUPPORTED_PUBLIC_KEY_TYPE' });
+  }
+
+  const { proofValue, ...restProof } = proof;
+  const verified = await verifier.verify(
+    multibaseDecode(proofValue).bytes,
+    await prepareDataForSigning(rest, restProof),
+    publicKey.slice(2)
+  );
+  if (!verified) {
+    throw new InvalidProofError('Whois presentation proof failed verification');
+  }
+  return true;
+};
+
+/**
+ * Resolves a DID, downloads the presentation from its #whois service and verifies it
+ * @param did - The DID
+ * @param options - Resolution options; a verifier is required
+ * @returns The verified presentation and the resolved DID document
+ */
+export const fetchWhois = async (did: string, options: ResolutionOptions & { witnessProofs?: WitnessProofFileEntry[] } = {}) => {
+  if (!options.verifier) {
+    throw new Error('Verifier implementation is required');
+  }
+  const { doc, meta } = await resolveDID(did, options);
+  if (!doc) {
+    throw new NotFoundError(`Could not resolve ${did}: ${meta.problemDetails?.detail ?? meta.error}`);
+  }
+
+  const service = doc.service?.find((s: any) => s.id === '#whois' || s.id === `${did}#whois`);
+  if (!service || typeof service.serviceEndpoint !== 'string') {
+    throw new NotFoundError(`No #whois service found for ${did}`);
+  }
+  const content = await (options.fetcher ?? defaultLogFetcher).fetch(service.serviceEndpoint);
+  if (content === null) {
+    throw new NotFoundError(`whois.vp not found for ${did}`);
+  }
+
+  const presentation: WhoisPresentation = JSON.parse(content);
+  await verifyWhoisPresentation(presentation, doc, options.verifier);
+  return { did, presentation, doc, meta };
+};
@@ -0,0 +1,198 @@
+import { verifyLog } from './method';
+import { getFS } from './utils';
+import { getWitnessRequirements, signWitnessProof } from './witness';
+import { DIDResolutionError, InvalidDIDError, WitnessConflictError, WitnessError } from './errors';
+import type { DIDResolutionErrorCode } from './errors';
+import type { DIDLog, DIDLogEntry, KeyType, LogCheckResult, LogFetcher, ProblemDetails, Signer, Verifier, WitnessParameterResolution, WitnessProofFileEntry, WitnessRecordStore } from './interfaces';
+
+export interface WitnessServiceOptions {
+  /** Signs the witness proofs. The DID of its verification method is the witness id */
+  signer: Signer;
+  /** The type of the signer's key. Read from did:key verification methods when not given */
+  keyType?: KeyType;
+  verifier: Verifier;
+  /** Defaults to a MemoryWitnessRecordStore */
+  store?: WitnessRecordStore;
+  fetcher?: LogFetcher;
+  maxClockSkew?: number;
+}
+
+export interface WitnessRequest {
+  /** The log before the proposed entry, empty for a new DID */
+  log: DIDLog;
+  entry: DIDLogEntry;
+  /** The did-witness.json entries approving the prior log. Fetched from the DID's host when not given */
+  witnessProofs?: WitnessProofFileEntry[];
+}
+
+/**
+ * Keeps the approved versionIds in memory
+ */
+export class MemoryWitnessRecordStore implements WitnessRecordStore {
+  private records = new Map<string, string>();
+
+  async get(scid: string, versionNumber: number): Promise<string | undefined> {
+    return this.records.get(`${scid}/${versionNumber}`);
+  }
+
+  async set(scid: string, versionNumber: number, versionId: string): Promise<void> {
+    this.records.set(`${scid}/${versionNumber}`, versionId);
+  }
+}
+
+/**
+ * Keeps the approved versionIds in a JSON file, so a restarted witness remembers what it signed
+ */
+export class FileSystemWitnessRecordStore implements WitnessRecordStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private async read(): Promise<Record<string, Record<string, string>>> {
+    const fs = await getFS();
+    return fs.existsSync(this.path) ? JSON.parse(fs.readFileSync(this.path, 'utf8')) : {};
+  }
+
+  async get(scid: string, versionNumber: number): Promise<string | undefined> {
+    return (await this.read())[scid]?.[versionNumber];
+  }
+
+  async set(scid: string, versionNumber: number, versionId: string): Promise<void> {
+    const records = await this.read();
+    records[scid] = { ...records[scid], [versionNumber]: versionId };
+    const fs = await getFS();
+    fs.writeFileSync(this.path, JSON.stringify(records, null, 2));
+  }
+}
+
+/**
+ * A witness that only approves log entries that pass verification, and never approves
+ * two different entries at the same version number of a DID
+ */
+export class WitnessService {
+  readonly id: string;
+  private signer: Signer;
+  private keyType?: KeyType;
+  private verifier: Verifier;
+  private store: WitnessRecordStore;
+  private fetcher?: LogFetcher;
+  private maxClockSkew?: number;
+  // Requests are handled one at a time, so concurrent requests can't approve conflicting entries
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: WitnessServiceOptions) {
+    this.signer = options.signer;
+    this.keyType = options.keyType;
+    this.verifier = options.verifier;
+    this.store = options.store ?? new MemoryWitnessRecordStore();
+    this.fetcher = options.fetcher;
+    this.maxClockSkew = options.maxClockSkew;
+    this.id = this.signer.getVerificationMethodId().split('#')[0];
+  }
+
+  /**
+   * Verifies a proposed log entry against the prior log and signs its versionId
+   * @param request - The prior log, its witness proofs and the proposed entry
+   * @returns The witness proof as a did-witness.json entry
+   */
+  witness(request: WitnessRequest): Promise<WitnessProofFileEntry> {
+    const result = this.queue.then(() => this.approve(request));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async approve({ log, entry, witnessProofs }: WitnessRequest): Promise<WitnessProofFileEntry> {
+    const fullLog = [...log, entry];
+    const scid: string = fullLog[0].parameters.scid ?? '';
+    const { versionId } = entry;
+
+    // A prior log that differs from what was approved before is a fork
+    for (let i = 0; i < fullLog.length; i++) {
+      const approved = await this.store.get(scid, i + 1);
+      if (approved && approved !== fullLog[i].versionId) {
+        throw new WitnessConflictError(`${this.id} already approved ${approved} at version ${i + 1} of ${scid}`, { versionId: fullLog[i].versionId });
+      }
+    }
+
+    // The prior entries must already have their witness approvals. The proposed entry can't
+    // have witness proofs yet, so only its other checks count
+    const report = await verifyLog(fullLog, {
+      verifier: this.verifier,
+      fetcher: this.fetcher,
+      witnessProofs: log.length === 0 ? [] : witnessProofs,
+      maxClockSkew: this.maxClockSkew
+    });
+    for (const [i, entryReport] of report.entries.entries()) {
+      const proposed = i === fullLog.length - 1;
+      const failed = Object.entries(entryReport.checks)
+        .find(([name, check]) => !(proposed && (name === 'witnesses' || name === 'previousWitnesses')) && check && !check.valid) as [string, LogCheckResult] | undefined;
+      if (failed) {
+        throw new InvalidDIDError(`${entryReport.versionId} failed the ${failed[0]} check: ${failed[1].error}`, { code: failed[1].code as DIDResolutionErrorCode | undefined, versionId: entryReport.versionId });
+      }
+    }
+
+    let witness: WitnessParameterResolution | undefined;
+    let previousWitness: WitnessParameterResolution | undefined;
+    for (const { parameters } of fullLog) {
+      previousWitness = witness;
+      if ('witness' in parameters) {
+        witness = parameters.witness;
+      }
+    }
+    // The witnesses an entry replaces approve it too
+    const requirements = getWitnessRequirements(log.length, witness, previousWitness);
+    if (!requirements.some(({ witness }) => witness.witnesses?.some(w => w.id === this.id))) {
+      throw new WitnessError(`${this.id} is not a witness of ${versionId}`, { versionId });
+    }
+
+    const proof = await signWitnessProof(this.signer, versionId, this.keyType);
+    // Approving an entry approves the entries before it too
+    for (let i = 0; i < fullLog.length; i++) {
+      await this.store.set(scid, i + 1, fullLog[i].versionId);
+    }
+    return { versionId, proof: [proof] };
+  }
+}
+
+const problemResponse = (status: number, problem: ProblemDetails): Response => {
+  return new Response(JSON.stringify(problem), { status, headers: { 'Content-Type': 'application/problem+json' } });
+};
+
+/**
+ * Creates a Fetch API handler for a witness service, for Bun.serve, Elysia or any server that speaks Request and Response.
+ * POST a JSON body with the prior `log`, the proposed `entry` and optionally the prior `witnessProofs` to get the witness proof back
+ * @param service - The witness service
+ * @returns The request handler
+ */
+export const createWitnessHandler = (service: WitnessService) => async (request: Request): Promise<Response> => {
+  if (request.method !== 'POST') {
+    return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+  }
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return problemResponse(400, { type: 'about:blank', title: 'Bad Request', detail: 'The request body is not JSON' });
+  }
+  if (!Array.isArray(body?.log) || typeof body?.entry?.versionId !== 'string') {
+    return problemResponse(400, { type: 'about:blank', title: 'Bad Request', detail: 'Expected the prior log and the proposed entry' });
+  }
+
+  try {
+    const witnessProofs = Array.isArray(body.witnessProofs) ? body.witnessProofs : undefined;
+    return Response.json(await service.witness({ log: body.log, entry: body.entry, witnessProofs }));
+  } catch (error) {
+    if (error instanceof WitnessConflictError) {
+      return problemResponse(409, error.toProblemDetails());
+    }
+    if (error instanceof WitnessError) {
+      return problemResponse(403, error.toProblemDetails());
+    }
+    if (error instanceof DIDResolutionError) {
+      return problemResponse(422, error.toProblemDetails());
+    }
+    return problemResponse(500, { type: 'about:blank', title: 'Internal Server Error', detail: (error as Error).message });
+  }
+};
@@ -1,23 +1,34 @@
-import { canonicalize } from 'json-canonicalize';
-import { createHash } from './utils/crypto';
-import type { DataIntegrityProof, DIDLogEntry, WitnessEntry, WitnessProofFileEntry, Verifier, WitnessParameterResolution } from './interfaces';
+import type { DataIntegrityProof, DIDLog, DIDLogEntry, KeyType, Signer, WitnessApprovals, WitnessEntry, WitnessProofFileEntry, WitnessProofFileIssue, WitnessProofFileReport, WitnessRequirement, Verifier, WitnessParameterResolution, LogFetcher } from './interfaces';
 import { resolveVM } from "./utils";
-import { concatBuffers } from './utils/buffer';
 import { fetchWitnessProofs } from './utils';
-import { multibaseDecode } from './utils/multiformats';
+import { decodeMultikey, multibaseDecode } from './utils/multiformats';
+import { getPublicKeyMultibase } from './utils/jwk';
+import { getCryptosuite, getKeyTypeForVerificationMethod, prepareDataForSigning } from './cryptography';
+import { WitnessError, WitnessThresholdError } from './errors';
 
+const WITNESS_CRYPTOSUITES = ['eddsa-jcs-2022', 'ecdsa-jcs-2019'];
+
+/**
+ * Creates a witness proof for a version of a DID log
+ * @param signer - Signs the document. It receives the proof options to sign with, and the proof it returns
+ * is stored over them, so a signer that sets its own `created` must return it
+ * @param versionId - The approved versionId
+ * @param keyType - The type of the signer's key, which picks the cryptosuite. Defaults to Ed25519
+ * @returns The witness proof
+ */
 export async function createWitnessProof(
-  signer: (doc: any) => Promise<{proof: any}>,
-  versionId: string
+  signer: (doc: any, proof: Omit<DataIntegrityProof, 'verificationMethod' | 'proofValue'>) => Promise<{proof: any}>,
+  versionId: string,
+  keyType: KeyType = 'Ed25519'
 ): Promise<DataIntegrityProof> {
   const proof = {
     type: "DataIntegrityProof",
-    cryptosuite: "eddsa-jcs-2022",
+    cryptosuite: getCryptosuite(keyType),
     created: new Date().toISOString(),
     proofPurpose: "authentication"
   };
 
-  const signedData = await signer({versionId});
+  const signedData = await signer({versionId}, proof);
   
   return {
     ...proof,
@@ -25,22 +36,49 @@ export async function createWitnessProof(
   };
 }
 
+/**
+ * Creates a witness proof for a version of a DID log with a Signer
+ * @param signer - The witness's signer. The DID of its verification method is the witness id
+ * @param versionId - The approved versionId
+ * @param keyType - The type of the signer's key. Read from did:key verification methods when not given
+ * @returns The witness proof
+ */
+export async function signWitnessProof(signer: Signer, versionId: string, keyType?: KeyType): Promise<DataIntegrityProof> {
+  const verificationMethod = signer.getVerificationMethodId();
+  return createWitnessProof(async (document, proof) => {
+    const options = { ...proof, verificationMethod };
+    const { proofValue } = await signer.sign({ document, proof: options });
+    return { proof: { ...options, proofValue } };
+  }, versionId, keyType ?? getKeyTypeForVerificationMethod(verificationMethod));
+}
+
+/**
+ * Finds the witness a verification method belongs to. Witnesses are did:key or did:webvh DIDs
+ * @param verificationMethod - The verification method of a proof
+ * @param witnesses - The witnesses in effect
+ * @returns The witness, or undefined when the verification method isn't from one of them
+ */
+export function findWitness(verificationMethod: string, witnesses: WitnessEntry[] = []): WitnessEntry | undefined {
+  const did = verificationMethod.split('#')[0];
+  return witnesses.find(({ id }) => id.split('#')[0] === did);
+}
+
 export function validateWitnessParameter(witness: WitnessParameterResolution): void {
   if (!witness.witnesses || !Array.isArray(witness.witnesses) || witness.witnesses.length === 0) {
-    throw new Error('Witness list cannot be empty');
+    throw new WitnessError('Witness list cannot be empty');
   }
 
   if (!witness.threshold || parseInt(witness.threshold.toString()) < 1 || parseInt(witness.threshold.toString()) > witness.witnesses.length) {
-    throw new Error('Witness threshold must be between 1 and the number of witnesses');
+    throw new WitnessError('Witness threshold must be between 1 and the number of witnesses');
   }
 
   const ids = new Set<string>();
   for (const w of witness.witnesses) {
-    if (!w.id.startsWith('did:key:')) {
-      throw new Error('Witness DIDs must be did:key format');
+    if (!w.id.startsWith('did:key:') && !w.id.startsWith('did:webvh:')) {
+      throw new WitnessError('Witness DIDs must be did:key or did:webvh DIDs');
     }
     if (ids.has(w.id)) {
-      throw new Error(`Duplicate witness id: ${w.id}`);
+      throw new WitnessError(`Duplicate witness id: ${w.id}`);
     }
     ids.add(w.id);
   }
@@ -50,10 +88,10 @@ export function calculateWitnessWeight(proofs: DataIntegrityProof[], witnesses:
   const processed = new Set<string>();
 
   for (const proof of proofs) {
-    const witness = witnesses.find(w => proof.verificationMethod.startsWith(w.id));
+    const witness = findWitness(proof.verificationMethod, witnesses);
     if (witness) {
-      if (proof.cryptosuite !== 'eddsa-jcs-2022') {
-        throw new Error('Invalid witness proof cryptosuite');
+      if (!WITNESS_CRYPTOSUITES.includes(proof.cryptosuite)) {
+        throw new WitnessError('Invalid witness proof cryptosuite');
       }
       processed.add(witness.id);
     }
@@ -62,99 +100,384 @@ export function calculateWitnessWeight(proofs: DataIntegrityProof[], witnesses:
   return processed.size;
 }
 
+/**
+ * Verifies a single witness proof over a versionId
+ * @param versionId - The versionId the witness approved
+ * @param proof - The witness proof
+ * @param currentWitness - The witness configuration the proof is checked against
+ * @param resolving - The did:webvh DIDs being resolved, which can't be used to resolve a witness key
+ * @returns The id of the witness that signed the proof
+ */
+export async function verifyWitnessProof(
+  versionId: string,
+  proof: DataIntegrityProof,
+  currentWitness: WitnessParameterResolution,
+  verifier: Verifier,
+  fetcher?: LogFetcher,
+  resolving?: string[]
+): Promise<string> {
+  if (!WITNESS_CRYPTOSUITES.includes(proof.cryptosuite)) {
+    throw new WitnessError('Invalid witness proof cryptosuite', { versionId });
+  }
+
+  const witness = findWitness(proof.verificationMethod, currentWitness.witnesses);
+  if (!witness) {
+    throw new WitnessError('Proof from unauthorized witness', { versionId });
+  }
+
+  try {
+    // Resolve verification method
+    const vm = await resolveVM(proof.verificationMethod, fetcher, verifier, resolving);
+    if (!vm) {
+      throw new Error(`Verification Method ${proof.verificationMethod} not found`);
+    }
+
+    // Decode public key
+    let publicKey: ReturnType<typeof decodeMultikey>;
+    try {
+      publicKey = decodeMultikey(getPublicKeyMultibase(vm));
+    } catch (error: any) {
+      throw new Error(`Failed to decode public key: ${error.message}`);
+    }
+    if (proof.cryptosuite !== getCryptosuite(publicKey.keyType)) {
+      throw new Error(`Cryptosuite ${proof.cryptosuite} cannot be used with ${publicKey.keyType} keys`);
+    }
+
+    // Extract proof value and prepare data for verification
+    const { proofValue, ...proofWithoutValue } = proof;
+    const input = await prepareDataForSigning({versionId}, proofWithoutValue, publicKey.keyType);
+
+    // Decode signature
+    let signature: Uint8Array;
+    try {
+      signature = multibaseDecode(proofValue).bytes;
+    } catch (error: any) {
+      throw new Error(`Failed to decode signature: ${error.message}`);
+    }
+
+    // Verify signature
+    const verified = await verifier.verify(
+      signature,
+      input,
+      publicKey.key,
+      publicKey.keyType
+    );
+
+    if (!verified) {
+      throw new Error('Invalid witness proof signature');
+    }
+  } catch (error: any) {
+    throw new WitnessError(`Invalid witness proof: ${error.message}`, { versionId });
+  }
+
+  return witness.id;
+}
+
 export async function verifyWitnessProofs(
   logEntry: DIDLogEntry,
   witnessProofs: WitnessProofFileEntry[],
   currentWitness: WitnessParameterResolution,
-  verifier?: Verifier
+  verifier?: Verifier,
+  fetcher?: LogFetcher
 ): Promise<void> {
   if (!verifier) {
     throw new Error('Verifier implementation is required');
   }
 
-  let approvals = 0;
   const processedWitnesses = new Set<string>();
 
-  // Process each proof set
+  // Process each proof in each proof set
   for (const proofSet of witnessProofs) {
-    // Process each proof in the set
     for (const proof of proofSet.proof) {
-      if (proof.cryptosuite !== 'eddsa-jcs-2022') {
-        throw new Error('Invalid witness proof cryptosuite');
+      const witness = findWitness(proof.verificationMethod, currentWitness.witnesses);
+      if (witness && processedWitnesses.has(witness.id)) {
+        continue; // Skip duplicate proofs from same witness
       }
+      processedWitnesses.add(await verifyWitnessProof(logEntry.versionId, proof, currentWitness, verifier, fetcher));
+    }
+  }
 
-      const witness = currentWitness.witnesses?.find(w => proof.verificationMethod.startsWith(w.id));
-      if (!witness) {
-        throw new Error('Proof from unauthorized witness');
-      }
+  if (processedWitnesses.size < parseInt(currentWitness.threshold?.toString() ?? '0')) {
+    throw new WitnessThresholdError(`Witness threshold not met: got ${processedWitnesses.size}, need ${currentWitness.threshold}`, { versionId: logEntry.versionId });
+  }
+}
 
-      if (processedWitnesses.has(witness.id)) {
-        continue; // Skip duplicate proofs from same witness
-      }
+/**
+ * Whether a witness configuration requires approvals
+ * @param witness - The witness parameter
+ */
+export const hasActiveWitnesses = (witness?: WitnessParameterResolution | null): witness is WitnessParameterResolution =>
+  !!witness?.witnesses?.length && parseInt(witness.threshold?.toString() ?? '0') > 0;
+
+const sameWitnesses = (a: WitnessParameterResolution, b?: WitnessParameterResolution | null) => {
+  const ids = (witness?: WitnessParameterResolution | null) => (witness?.witnesses ?? []).map(({ id }) => id).sort().join(' ');
+  return parseInt(a.threshold?.toString() ?? '0') === parseInt(b?.threshold?.toString() ?? '0') && ids(a) === ids(b);
+};
 
+/**
+ * Lists the witnesses that must approve a log entry: the witnesses in effect for it, and the previous
+ * witnesses when the entry changes them, so an update key alone can't replace or remove the witnesses
+ * @param index - The position of the entry in the log
+ * @param witness - The witness configuration in effect for the entry
+ * @param previousWitness - The witness configuration in effect for the entry before it
+ */
+export function getWitnessRequirements(
+  index: number,
+  witness?: WitnessParameterResolution | null,
+  previousWitness?: WitnessParameterResolution | null
+): WitnessRequirement[] {
+  const requirements: WitnessRequirement[] = [];
+  if (hasActiveWitnesses(witness)) {
+    requirements.push({ index, witness });
+  }
+  if (index > 0 && hasActiveWitnesses(previousWitness) && !sameWitnesses(previousWitness, witness)) {
+    requirements.push({ index, witness: previousWitness, previous: true });
+  }
+  return requirements;
+}
+
+// The witnesses that may sign each entry, from the requirements for it
+const getAuthorizedWitnesses = (requirements: WitnessRequirement[]) => {
+  const authorized = new Map<number, WitnessParameterResolution>();
+  for (const { index, witness } of requirements) {
+    authorized.set(index, { ...witness, witnesses: [...(authorized.get(index)?.witnesses ?? []), ...(witness.witnesses ?? [])] });
+  }
+  return authorized;
+};
+
+// The witness DID of a proof, without the fragment of its verification method
+const getWitnessId = (proof: DataIntegrityProof) => proof.verificationMethod.split('#')[0];
+
+/**
+ * Lists the witnesses of a requirement that approved its entry, directly or through a later entry
+ * @param requirement - The witnesses that must approve an entry
+ * @param latestApprovals - The index of the latest entry each witness approved
+ */
+export function getApprovedBy({ index, witness }: WitnessRequirement, latestApprovals: Map<string, number>): string[] {
+  return (witness.witnesses ?? []).filter(({ id }) => (latestApprovals.get(id) ?? -1) >= index).map(({ id }) => id);
+}
+
+/**
+ * Describes the approvals a requirement is missing
+ * @param requirement - The witnesses that must approve an entry
+ * @param latestApprovals - The index of the latest entry each witness approved
+ * @param versionId - The versionId to name in the description
+ * @returns The description, or undefined when the threshold is met
+ */
+export function getMissingApprovals(requirement: WitnessRequirement, latestApprovals: Map<string, number>, versionId?: string): string | undefined {
+  const { witness, previous } = requirement;
+  const threshold = parseInt(witness.threshold?.toString() ?? '0');
+  const approvedBy = getApprovedBy(requirement, latestApprovals);
+  const pending = (witness.witnesses ?? []).map(({ id }) => id).filter(id => !approvedBy.includes(id));
+  const approvals = approvedBy.length;
+  if (approvals >= threshold) {
+    return undefined;
+  }
+  const subject = previous ? 'Threshold of the previous witnesses not met' : 'Witness threshold not met';
+  return `${subject}${versionId ? ` for ${versionId}` : ''}: got ${approvals}, need ${threshold}, waiting for ${pending.join(', ')}`;
+}
+
+/**
+ * Verifies the witness proofs of a log. A proof only counts for the witnesses that may approve its entry,
+ * so a witness that was replaced can't approve the entries after it
+ * @param log - The DID log
+ * @param requirements - The witnesses that must approve each witnessed entry
+ * @param witnessProofs - The did-witness.json entries. Proofs for versions that aren't witnessed entries are ignored
+ * @param resolving - The did:webvh DIDs being resolved, which can't be used to resolve a witness key
+ * @returns The latest entry each witness approved, and the proofs that failed verification
+ */
+export async function getWitnessApprovals(
+  log: DIDLog,
+  requirements: WitnessRequirement[],
+  witnessProofs: WitnessProofFileEntry[],
+  verifier?: Verifier,
+  fetcher?: LogFetcher,
+  resolving?: string[]
+): Promise<WitnessApprovals> {
+  if (!verifier) {
+    throw new Error('Verifier implementation is required');
+  }
+
+  const indexes = new Map(log.map((entry, index) => [entry.versionId, index]));
+  const authorized = getAuthorizedWitnesses(requirements);
+  const approvals: WitnessApprovals = { latest: new Map(), invalid: [] };
+  for (const { versionId, proof: proofs } of witnessProofs) {
+    const index = indexes.get(versionId);
+    const witness = index === undefined ? undefined : authorized.get(index);
+    if (!witness) {
+      continue;
+    }
+    // Proofs from witnesses that can't approve this entry don't count
+    for (const proof of proofs.filter(proof => findWitness(proof.verificationMethod, witness.witnesses))) {
       try {
-        // Resolve verification method
-        const vm = await resolveVM(proof.verificationMethod);
-        if (!vm) {
-          throw new Error(`Verification Method ${proof.verificationMethod} not found`);
-        }
+        const witnessId = await verifyWitnessProof(versionId, proof, witness, verifier, fetcher, resolving);
+        approvals.latest.set(witnessId, Math.max(approvals.latest.get(witnessId) ?? -1, index!));
+      } catch (error: any) {
+        approvals.invalid.push({ index: index!, versionId, witnessId: getWitnessId(proof), error });
+      }
+    }
+  }
+  return approvals;
+}
 
-        // Decode public key
-        let publicKey: Uint8Array;
-        try {
-          publicKey = multibaseDecode(vm.publicKeyMultibase).bytes;
-        } catch (error: any) {
-          throw new Error(`Failed to decode public key: ${error.message}`);
-        }
-        
-        if (publicKey.length !== 34) {
-          throw new Error(`Invalid public key length ${publicKey.length} (should be 34 bytes)`);
-        }
+/**
+ * Checks that every entry published while witnessing was active is approved by its threshold of witnesses,
+ * either directly or through a proof for a later version, which approves the earlier versions too
+ * @param log - The DID log
+ * @param requirements - The witnesses that must approve each witnessed entry
+ * @param witnessProofs - The did-witness.json entries. Proofs for versions that aren't witnessed entries are ignored
+ * @param resolving - The did:webvh DIDs being resolved, which can't be used to resolve a witness key
+ */
+export async function verifyWitnessApprovals(
+  log: DIDLog,
+  requirements: WitnessRequirement[],
+  witnessProofs: WitnessProofFileEntry[],
+  verifier?: Verifier,
+  fetcher?: LogFetcher,
+  resolving?: string[]
+): Promise<void> {
+  const { latest, invalid } = await getWitnessApprovals(log, requirements, witnessProofs, verifier, fetcher, resolving);
+  if (invalid.length > 0) {
+    throw invalid[0].error;
+  }
 
-        // Extract proof value and prepare data for verification
-        const { proofValue, ...proofWithoutValue } = proof;
-        
-        // Create hashes
-        const canonicalizedData = canonicalize({versionId: logEntry.versionId});
-        const canonicalizedProof = canonicalize(proofWithoutValue);
-        
-        const dataHash = await createHash(canonicalizedData);
-        const proofHash = await createHash(canonicalizedProof);
-        
-        // Concatenate buffers
-        const input = concatBuffers(proofHash, dataHash);
-
-        // Decode signature
-        let signature: Uint8Array;
-        try {
-          signature = multibaseDecode(proofValue).bytes;
-        } catch (error: any) {
-          throw new Error(`Failed to decode signature: ${error.message}`);
-        }
+  for (const requirement of requirements) {
+    const { versionId } = log[requirement.index];
+    const missing = getMissingApprovals(requirement, latest, versionId);
+    if (missing) {
+      throw new WitnessThresholdError(missing, { versionId });
+    }
+  }
+}
 
-        // Verify signature
-        const verified = await verifier.verify(
-          signature,
-          input,
-          publicKey.slice(2)
-        );
+// The position of each versionId in the log and the witnesses that must approve it
+const getWitnessConfigs = (log: DIDLog) => {
+  const configs = new Map<string, { index: number, requirements: WitnessRequirement[], witness?: WitnessParameterResolution }>();
+  let witness: WitnessParameterResolution | undefined;
+  log.forEach((entry, index) => {
+    const previousWitness = witness;
+    if ('witness' in entry.parameters) {
+      witness = entry.parameters.witness;
+    }
+    const requirements = getWitnessRequirements(index, witness, previousWitness);
+    configs.set(entry.versionId, { index, requirements, witness: getAuthorizedWitnesses(requirements).get(index) });
+  });
+  return configs;
+};
+
+// Verifies every proof of a did-witness.json file and finds the latest entry each witness approved
+const checkWitnessProofFile = async (log: DIDLog, witnessProofs: WitnessProofFileEntry[], verifier: Verifier, fetcher?: LogFetcher) => {
+  const configs = getWitnessConfigs(log);
+  const issues: WitnessProofFileIssue[] = [];
+  const latestApprovals = new Map<string, number>();
+  const seen = new Set<string>();
 
-        if (!verified) {
-          throw new Error('Invalid witness proof signature');
+  for (const { versionId, proof: proofs } of witnessProofs) {
+    if (typeof versionId !== 'string' || !Array.isArray(proofs)) {
+      issues.push({ versionId: String(versionId), error: 'Entries need a versionId and a proof array' });
+      continue;
+    }
+    const config = configs.get(versionId);
+    if (!config) {
+      issues.push({ versionId, error: `${versionId} is not in the log` });
+      continue;
+    }
+    for (const proof of proofs) {
+      const key = `${versionId} ${getWitnessId(proof)}`;
+      if (seen.has(key)) {
+        issues.push({ versionId, verificationMethod: proof.verificationMethod, error: 'Duplicate proof from the same witness' });
+        continue;
+      }
+      seen.add(key);
+      try {
+        if (!config.witness?.witnesses?.length) {
+          throw new WitnessError(`${versionId} needs no witness approval`, { versionId });
         }
+        const witnessId = await verifyWitnessProof(versionId, proof, config.witness, verifier, fetcher);
+        latestApprovals.set(witnessId, Math.max(latestApprovals.get(witnessId) ?? -1, config.index));
+      } catch (error: any) {
+        issues.push({ versionId, verificationMethod: proof.verificationMethod, error: error.message });
+      }
+    }
+  }
 
-        approvals++;
-        processedWitnesses.add(witness.id);
+  return { configs, issues, latestApprovals };
+};
 
-      } catch (error: any) {
-        throw new Error(`Invalid witness proof: ${error.message}`);
+/**
+ * Merges did-witness.json files into one. A proof replaces an earlier proof from the same witness for the same versionId
+ * @param files - The witness proof files, oldest first
+ * @returns The merged witness proofs
+ */
+export function mergeWitnessProofs(...files: WitnessProofFileEntry[][]): WitnessProofFileEntry[] {
+  const merged = new Map<string, Map<string, DataIntegrityProof>>();
+  for (const file of files) {
+    for (const { versionId, proof } of file) {
+      const proofs = merged.get(versionId) ?? new Map<string, DataIntegrityProof>();
+      for (const witnessProof of proof) {
+        proofs.set(getWitnessId(witnessProof), witnessProof);
       }
+      merged.set(versionId, proofs);
     }
   }
+  return [...merged].map(([versionId, proofs]) => ({ versionId, proof: [...proofs.values()] }));
+}
+
+/**
+ * Removes the proofs made redundant by a valid proof from the same witness for a later version,
+ * which approves the earlier versions too. Invalid proofs and versionIds not in the log are kept,
+ * use validateWitnessProofs to find them
+ * @param log - The DID log
+ * @param witnessProofs - The did-witness.json entries
+ * @returns The pruned witness proofs
+ */
+export async function pruneWitnessProofs(
+  log: DIDLog,
+  witnessProofs: WitnessProofFileEntry[],
+  verifier: Verifier,
+  fetcher?: LogFetcher
+): Promise<WitnessProofFileEntry[]> {
+  const merged = mergeWitnessProofs(witnessProofs);
+  const { configs, latestApprovals } = await checkWitnessProofFile(log, merged, verifier, fetcher);
+  return merged
+    .map(({ versionId, proof }) => {
+      const index = configs.get(versionId)?.index;
+      return {
+        versionId,
+        proof: index === undefined ? proof : proof.filter(witnessProof => (latestApprovals.get(getWitnessId(witnessProof)) ?? -1) <= index)
+      };
+    })
+    .filter(({ proof }) => proof.length > 0);
+}
+
+/**
+ * Checks a whole did-witness.json file against the log: every proof must be for a versionId in the log
+ * and signed by a witness of that version, and every witnessed version must meet its threshold
+ * @param log - The DID log
+ * @param witnessProofs - The did-witness.json entries
+ * @returns The issues found in the file
+ */
+export async function validateWitnessProofs(
+  log: DIDLog,
+  witnessProofs: WitnessProofFileEntry[],
+  verifier: Verifier,
+  fetcher?: LogFetcher
+): Promise<WitnessProofFileReport> {
+  if (!Array.isArray(witnessProofs)) {
+    return { valid: false, issues: [{ versionId: '', error: 'A witness proof file must be an array' }] };
+  }
+  const { configs, issues, latestApprovals } = await checkWitnessProofFile(log, witnessProofs, verifier, fetcher);
 
-  if (approvals < parseInt(currentWitness.threshold?.toString() ?? '0')) {
-    throw new Error(`Witness threshold not met: got ${approvals}, need ${currentWitness.threshold}`);
+  for (const [versionId, { requirements }] of configs) {
+    for (const requirement of requirements) {
+      const missing = getMissingApprovals(requirement, latestApprovals);
+      if (missing) {
+        issues.push({ versionId, error: missing });
+      }
+    }
   }
+
+  return { valid: issues.length === 0, issues };
 }
 
 export { fetchWitnessProofs }; 
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDID, updateDID } from "../src/method";
+import { MemoryResolutionCache } from "../src/cache";
+import { HttpLogFetcher } from "../src/fetcher";
+import { deriveHash } from "../src/utils";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+describe("Resolution cache", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let did: string;
+  let log: DIDLog;
+  const originalDocumentState = process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID;
+
+  // Serves the current log with an ETag derived from its contents and records the requests made
+  const createServer = () => {
+    const requests: { url: string, ifNoneMatch: string | null }[] = [];
+    let served: DIDLog = [];
+    const fetcher = new HttpLogFetcher({
+      fetch: (async (url: string, init?: RequestInit) => {
+        const ifNoneMatch = new Headers(init?.headers).get('If-None-Match');
+        requests.push({ url, ifNoneMatch });
+        if (!url.endsWith('did.jsonl')) {
+          return new Response('Not Found', { status: 404 });
+        }
+        const etag = `"${await deriveHash(served)}"`;
+        if (ifNoneMatch === etag) {
+          return new Response(null, { status: 304 });
+        }
+        return new Response(served.map(entry => JSON.stringify(entry)).join('\n'), { headers: { ETag: etag } });
+      }) as unknown as typeof fetch
+    });
+    return { fetcher, requests, serve: (next: DIDLog) => { served = next; } };
+  };
+
+  const countingVerifier = () => {
+    const verifier = { calls: 0, verify: async (signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array) => {
+      verifier.calls++;
+      return testImplementation.verify(signature, message, publicKey);
+    }};
+    return verifier;
+  };
+
+  const update = async (current: DIDLog, updated: string, alsoKnownAs: string[] = []) => (await updateDID({
+    log: current,
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    verificationMethods: [authKey],
+    alsoKnownAs,
+    updated,
+    verifier: testImplementation
+  })).log;
+
+  beforeAll(async () => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'false';
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      // Revalidate on every resolution so each one reaches the server
+      ttl: 0,
+      verifier: testImplementation
+    });
+    did = created.did;
+    log = await update(created.log, '2024-02-01T00:00:00Z');
+  });
+
+  afterAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = originalDocumentState;
+  });
+
+  test("Unchanged logs are served from the cache using If-None-Match", async () => {
+    const { fetcher, requests, serve } = createServer();
+    const cache = new MemoryResolutionCache();
+    serve(log);
+
+    const first = await resolveDID(did, { verifier: testImplementation, fetcher, cache });
+    expect(first.meta).toMatchObject({ versionId: log[1].versionId });
+    expect(requests[0].ifNoneMatch).toBeNull();
+
+    const second = await resolveDID(did, { verifier: testImplementation, fetcher, cache });
+    expect(second.doc).toEqual(first.doc);
+    expect(second.meta).toEqual(first.meta);
+    expect(requests.at(-1)!.ifNoneMatch).toBe((await cache.get(did))!.etag!);
+  });
+
+  test("Only entries appended since the cached version are verified", async () => {
+    const { fetcher, serve } = createServer();
+    const cache = new MemoryResolutionCache();
+    serve(log);
+
+    const initialVerifier = countingVerifier();
+    await resolveDID(did, { verifier: initialVerifier, fetcher, cache });
+    expect(initialVerifier.calls).toBe(2);
+
+    const appended = await update(log, '2024-03-01T00:00:00Z', ['https://example.com/v3']);
+    serve(appended);
+    const incrementalVerifier = countingVerifier();
+    const resolved = await resolveDID(did, { verifier: incrementalVerifier, fetcher, cache });
+    expect(incrementalVerifier.calls).toBe(1);
+    expect(resolved.doc.alsoKnownAs).toEqual(['https://example.com/v3']);
+    expect(resolved.meta).toMatchObject({ versionId: appended[2].versionId, created: '2024-01-01T00:00:00Z' });
+  });
+
+  test("Version queries bypass the cache", async () => {
+    const { fetcher, serve } = createServer();
+    const cache = new MemoryResolutionCache();
+    serve(log);
+
+    const resolved = await resolveDID(did, { verifier: testImplementation, fetcher, cache, versionNumber: 1 });
+    expect(resolved.meta).toMatchObject({ versionId: log[0].versionId });
+    expect(await cache.get(did)).toBeUndefined();
+  });
+
+  test("Detect a rewritten history", async () => {
+    const { fetcher, serve } = createServer();
+    const cache = new MemoryResolutionCache();
+    serve(log);
+    await resolveDID(did, { verifier: testImplementation, fetcher, cache });
+
+    const rewritten = await update(log.slice(0, 1), '2024-02-01T00:00:00Z', ['https://attacker.example']);
+    serve(rewritten);
+    const resolved = await resolveDID(did, { verifier: testImplementation, fetcher, cache });
+    expect(resolved.doc).toBeNull();
+    expect(resolved.meta.error).toBe('INVALID_DID');
+    expect(resolved.meta.problemDetails).toMatchObject({
+      title: 'The DID Log history was rewritten.',
+      versionId: log[1].versionId
+    });
+
+    serve(log.slice(0, 1));
+    const truncated = await resolveDID(did, { verifier: testImplementation, fetcher, cache });
+    expect(truncated.meta.problemDetails?.title).toBe('The DID Log history was rewritten.');
+  });
+});
@@ -1,8 +1,11 @@
 import { beforeAll, afterAll, expect, test, describe } from "bun:test";
 import { join } from "path";
 import { $ } from "bun";
-import { readLogFromDisk } from "../src/utils";
+import { deriveNextKeyHash, readLogFromDisk } from "../src/utils";
 import { resolveDIDFromLog } from "../src/method";
+import { EXIT_CODES } from "../src/cli";
+import { Keystore } from "../src/keystore";
+import { generateEcdsaVerificationMethod } from "../src/cryptography";
 import { generateTestVerificationMethod } from './utils';
 import type { VerificationMethod } from "../src/interfaces";
 
@@ -10,11 +13,15 @@ import type { VerificationMethod } from "../src/interfaces";
 process.env.IGNORE_ASSERTION_KEY_IS_AUTHORIZED = 'true';
 process.env.IGNORE_ASSERTION_NEW_KEYS_ARE_VALID = 'true';
 process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+process.env.DIDWEBVH_PASSPHRASE = 'correct horse battery staple';
+// Keep key encryption cheap, every command derives the keystore key again
+process.env.DIDWEBVH_SCRYPT_N = '1024';
 
 const TEST_DIR = join(process.cwd(), 'test', 'temp-cli-e2e');
 
 beforeAll(async () => {
   await $`mkdir -p ${TEST_DIR}`.quiet();
+  await Bun.write(join(TEST_DIR, 'no-witnesses.json'), '[]');
 });
 
 afterAll(async () => {
@@ -129,6 +136,168 @@ describe("CLI End-to-End Tests", async () => {
     expect(currentLog[0].parameters.nextKeyHashes).toContain(nextKeyHash2);
   });
 
+  test("Create and update DID with ttl", async () => {
+    const ttlLogFile = join(TEST_DIR, 'did-ttl.jsonl');
+    const vm = await generateTestVerificationMethod();
+    const vmFile = await createTempVerificationMethod(vm);
+
+    const createProc = await $`DID_VERIFICATION_METHODS=$(cat ${vmFile}) bun run cli create --domain example.com --output ${ttlLogFile} --ttl 600`.quiet();
+    expect(createProc.exitCode).toBe(0);
+    expect((await readLogFromDisk(ttlLogFile))[0].parameters.ttl).toBe(600);
+
+    const updateProc = await $`DID_VERIFICATION_METHODS=$(cat ${vmFile}) bun run cli update --log ${ttlLogFile} --output ${ttlLogFile} --ttl 60`.quiet();
+    expect(updateProc.exitCode).toBe(0);
+
+    const log = await readLogFromDisk(ttlLogFile);
+    expect(log[1].parameters.ttl).toBe(60);
+    expect((await resolveDIDFromLog(log)).meta.ttl).toBe(60);
+
+    const invalidCreate = await $`bun run cli create --domain example.com --output ${join(TEST_DIR, 'did-bad-ttl.jsonl')} --ttl abc`.nothrow().quiet();
+    expect(invalidCreate.exitCode).toBe(EXIT_CODES.USAGE);
+    expect(invalidCreate.stderr.toString()).toContain("Invalid ttl 'abc'");
+    const invalidUpdate = await $`DID_VERIFICATION_METHODS=$(cat ${vmFile}) bun run cli update --log ${ttlLogFile} --output ${ttlLogFile} --ttl 1.5`.nothrow().quiet();
+    expect(invalidUpdate.exitCode).toBe(EXIT_CODES.USAGE);
+    expect((await readLogFromDisk(ttlLogFile))).toHaveLength(2);
+
+    await $`rm ${vmFile}`.quiet();
+  });
+
+  test("Rotate update keys using CLI", async () => {
+    // Run in the temp dir so the generated keys are stored in its own keystore
+    const cli = join(process.cwd(), 'src', 'cli.ts');
+    const rotateLogFile = join(TEST_DIR, 'did-rotate.jsonl');
+
+    const createProc = await $`bun ${cli} create --domain example.com --output ${rotateLogFile}`.cwd(TEST_DIR).quiet();
+    expect(createProc.exitCode).toBe(0);
+
+    const commitProc = await $`bun ${cli} rotate-keys --log ${rotateLogFile} --output ${rotateLogFile}`.cwd(TEST_DIR).quiet();
+    expect(commitProc.exitCode).toBe(0);
+    const rotateProc = await $`bun ${cli} rotate-keys --log ${rotateLogFile} --output ${rotateLogFile}`.cwd(TEST_DIR).quiet();
+    expect(rotateProc.exitCode).toBe(0);
+
+    const log = await readLogFromDisk(rotateLogFile);
+    expect(log).toHaveLength(3);
+    expect(log[1].parameters.updateKeys).toEqual(log[0].parameters.updateKeys!);
+    expect(log[1].parameters.nextKeyHashes).toEqual([await deriveNextKeyHash(log[2].parameters.updateKeys![0])]);
+    expect(log[2].parameters.nextKeyHashes).toHaveLength(1);
+    expect((await resolveDIDFromLog(log)).meta.prerotation).toBe(true);
+  });
+
+  test("Manage keys and sign with a key file using CLI", async () => {
+    const cli = join(process.cwd(), 'src', 'cli.ts');
+    const keystore = join(TEST_DIR, 'keystore');
+    const keysLogFile = join(TEST_DIR, 'did-keys.jsonl');
+    const env = { ...process.env, IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID: 'false', IGNORE_ASSERTION_KEY_IS_AUTHORIZED: 'false' };
+
+    const generated = JSON.parse((await $`bun ${cli} keys generate --keystore ${keystore} --json`.quiet()).stdout.toString());
+    expect(generated.keyFile).toBe(join(keystore, 'unassigned', `${generated.publicKeyMultibase}.json`));
+
+    const created = JSON.parse((await $`bun ${cli} create --domain example.com --output ${keysLogFile} --key-file ${generated.keyFile} --keystore ${keystore} --json`.env(env).quiet()).stdout.toString());
+    expect(created.meta.updateKeys).toEqual([generated.publicKeyMultibase]);
+
+    // Signing fails deterministically until the DID's keystore directory holds its update key
+    const missingProc = await $`bun ${cli} update --log ${keysLogFile} --output ${keysLogFile} --ttl 60 --keystore ${keystore} --json`.env(env).nothrow().quiet();
+    expect(missingProc.exitCode).toBe(EXIT_CODES.UNAUTHORIZED_KEY);
+
+    const imported = JSON.parse((await $`bun ${cli} keys import --key-file ${generated.keyFile} --did ${created.did} --keystore ${keystore} --json`.quiet()).stdout.toString());
+    expect(imported.keys).toEqual([{
+      scid: created.meta.scid,
+      publicKeyMultibase: generated.publicKeyMultibase,
+      controller: created.did,
+      keyFile: join(keystore, created.meta.scid, `${generated.publicKeyMultibase}.json`)
+    }]);
+    expect((await $`bun ${cli} update --log ${keysLogFile} --output ${keysLogFile} --ttl 60 --keystore ${keystore}`.env(env).quiet()).exitCode).toBe(0);
+
+    const other = JSON.parse((await $`bun ${cli} keys generate --did ${created.did} --keystore ${keystore} --json`.quiet()).stdout.toString());
+    expect(other.controller).toBe(created.did);
+    const listed = JSON.parse((await $`bun ${cli} keys list --did ${created.did} --keystore ${keystore} --json`.quiet()).stdout.toString());
+    expect(listed.keys.map((key: any) => key.publicKeyMultibase).sort()).toEqual([generated.publicKeyMultibase, other.publicKeyMultibase].sort());
+
+    const unauthorizedProc = await $`bun ${cli} deactivate --log ${keysLogFile} --output ${keysLogFile} --key-file ${other.keyFile}`.env(env).nothrow().quiet();
+    expect(unauthorizedProc.exitCode).toBe(EXIT_CODES.UNAUTHORIZED_KEY);
+
+    const exported = JSON.parse((await $`bun ${cli} keys export-public --key ${other.publicKeyMultibase} --keystore ${keystore}`.quiet()).stdout.toString());
+    expect(exported).toMatchObject({ type: 'Multikey', publicKeyMultibase: other.publicKeyMultibase, controller: created.did });
+    expect(exported.secretKeyMultibase).toBeUndefined();
+
+    const usageProc = await $`bun ${cli} keys import --keystore ${keystore}`.nothrow().quiet();
+    expect(usageProc.exitCode).toBe(EXIT_CODES.USAGE);
+  });
+
+  test("Resolve, update and deactivate a P-256 DID using CLI", async () => {
+    const cli = join(process.cwd(), 'src', 'cli.ts');
+    const keystore = join(TEST_DIR, 'keystore-p256');
+    const logFile = join(TEST_DIR, 'did-p256.jsonl');
+    const env = { ...process.env, IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID: 'false', IGNORE_ASSERTION_KEY_IS_AUTHORIZED: 'false' };
+    const stored = await new Keystore({ dir: keystore, passphrase: process.env.DIDWEBVH_PASSPHRASE, scryptN: 1024 }).generate({ keyType: 'P-256' });
+
+    const created = JSON.parse((await $`bun ${cli} create --domain example.com --output ${logFile} --key-file ${stored.path} --keystore ${keystore} --json`.env(env).quiet()).stdout.toString());
+    await $`bun ${cli} keys import --key-file ${stored.path} --did ${created.did} --keystore ${keystore}`.quiet();
+
+    const resolved = JSON.parse((await $`bun ${cli} resolve --log ${logFile} --json`.env(env).quiet()).stdout.toString());
+    expect(resolved.did).toBe(created.did);
+    expect((await $`bun ${cli} update --log ${logFile} --output ${logFile} --ttl 60 --keystore ${keystore}`.env(env).quiet()).exitCode).toBe(0);
+    expect((await $`bun ${cli} deactivate --log ${logFile} --output ${join(TEST_DIR, 'did-p256-deactivated.jsonl')} --keystore ${keystore}`.env(env).quiet()).exitCode).toBe(0);
+    expect((await $`bun ${cli} rotate-keys --log ${logFile} --output ${logFile} --keystore ${keystore}`.env(env).quiet()).exitCode).toBe(0);
+  });
+
+  test("Encrypt stored keys and migrate DID_VERIFICATION_METHODS using CLI", async () => {
+    const cli = join(process.cwd(), 'src', 'cli.ts');
+    const keystore = join(TEST_DIR, 'encrypted-keystore');
+    const encryptedLogFile = join(TEST_DIR, 'did-encrypted.jsonl');
+
+    const created = JSON.parse((await $`bun ${cli} create --domain example.com --output ${encryptedLogFile} --keystore ${keystore} --json`.quiet()).stdout.toString());
+    const [stored] = JSON.parse((await $`bun ${cli} keys list --did ${created.did} --keystore ${keystore} --json`.quiet()).stdout.toString()).keys;
+    const keyFile = await Bun.file(stored.keyFile).json();
+    expect(keyFile.secretKeyMultibase).toBeUndefined();
+    expect(keyFile.encryptedSecretKey).toMatchObject({ kdf: 'scrypt', n: 1024, cipher: 'AES-256-GCM' });
+
+    const wrongProc = await $`bun ${cli} update --log ${encryptedLogFile} --ttl 60 --keystore ${keystore}`.env({ ...process.env, DIDWEBVH_PASSPHRASE: 'wrong' }).nothrow().quiet();
+    expect(wrongProc.exitCode).toBe(EXIT_CODES.ERROR);
+    expect(wrongProc.stderr.toString()).toContain('the passphrase is wrong');
+    const missingProc = await $`bun ${cli} keys generate --keystore ${keystore}`.env({ ...process.env, DIDWEBVH_PASSPHRASE: '' }).nothrow().quiet();
+    expect(missingProc.exitCode).toBe(EXIT_CODES.USAGE);
+
+    const legacyKey = { ...await generateTestVerificationMethod(), controller: created.did };
+    const legacyKeys = Buffer.from(JSON.stringify([legacyKey])).toString('base64');
+    const importProc = await $`bun ${cli} keys import --from-env --keystore ${keystore} --json`.env({ ...process.env, DID_VERIFICATION_METHODS: legacyKeys }).quiet();
+    expect(JSON.parse(importProc.stdout.toString()).keys).toEqual([{
+      scid: created.meta.scid,
+      publicKeyMultibase: legacyKey.publicKeyMultibase,
+      controller: created.did,
+      keyFile: join(keystore, created.meta.scid, `${legacyKey.publicKeyMultibase}.json`)
+    }]);
+    expect(await Bun.file(join(keystore, created.meta.scid, `${legacyKey.publicKeyMultibase}.json`)).text()).not.toContain(legacyKey.secretKeyMultibase!);
+  });
+
+  test("Verify a DID log and list its history using CLI", async () => {
+    const cli = join(process.cwd(), 'src', 'cli.ts');
+    const verifyLogFile = join(TEST_DIR, 'did-verify.jsonl');
+    // Run the real checks rather than the ignored assertions set above
+    const env = { ...process.env, IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID: 'false', IGNORE_ASSERTION_KEY_IS_AUTHORIZED: 'false' };
+
+    expect((await $`bun ${cli} create --domain example.com --output ${verifyLogFile}`.cwd(TEST_DIR).env(env).quiet()).exitCode).toBe(0);
+    expect((await $`bun ${cli} rotate-keys --log ${verifyLogFile} --output ${verifyLogFile}`.cwd(TEST_DIR).env(env).quiet()).exitCode).toBe(0);
+    const log = await readLogFromDisk(verifyLogFile);
+
+    const verifyProc = await $`bun ${cli} verify --log ${verifyLogFile}`.cwd(TEST_DIR).env(env).nothrow().quiet();
+    expect(verifyProc.exitCode).toBe(0);
+    expect(verifyProc.stdout.toString()).toContain('Log is valid');
+
+    const historyProc = await $`bun ${cli} history --log ${verifyLogFile}`.cwd(TEST_DIR).env(env).quiet();
+    expect(historyProc.exitCode).toBe(0);
+    const history = historyProc.stdout.toString();
+    expect(history).toContain(log[0].versionId);
+    expect(history).toContain(`Signed by: ${log[0].parameters.updateKeys![0]}`);
+    expect(history).toContain(`nextKeyHashes: [] -> ${JSON.stringify(log[1].parameters.nextKeyHashes)}`);
+
+    log[1].state.alsoKnownAs = ['https://attacker.example'];
+    await Bun.write(verifyLogFile, log.map(entry => JSON.stringify(entry)).join('\n'));
+    const tamperedProc = await $`bun ${cli} verify --log ${verifyLogFile}`.cwd(TEST_DIR).env(env).nothrow().quiet();
+    expect(tamperedProc.exitCode).toBe(EXIT_CODES.INVALID_LOG);
+    expect(tamperedProc.stdout.toString()).toContain(`${log[1].versionId} hashChain: Hash chain broken`);
+  });
+
   test("Update DID with verification methods", async () => {
     const vmLogFile = join(TEST_DIR, 'did-vm.jsonl');
     
@@ -226,6 +395,56 @@ describe("CLI End-to-End Tests", async () => {
     expect(output).toContain('DID Document');
     expect(output).toContain('Metadata');
   });
+
+  test("Print JSON and exit with distinct codes using --json", async () => {
+    const jsonLogFile = join(TEST_DIR, 'did-json.jsonl');
+    const createProc = await $`bun run cli create --domain example.com --output ${jsonLogFile} --json`.quiet();
+    const created = JSON.parse(createProc.stdout.toString());
+    expect(created).toMatchObject({ success: true, logFile: jsonLogFile });
+    expect(created.did).toStartWith('did:webvh:');
+
+    const resolveProc = await $`bun run cli resolve --log ${jsonLogFile} --witness-file ${join(TEST_DIR, 'no-witnesses.json')} --json`.quiet();
+    const resolved = JSON.parse(resolveProc.stdout.toString());
+    expect(resolved).toMatchObject({ success: true, did: created.did, meta: { versionId: created.meta.versionId } });
+
+    const missingProc = await $`bun run cli resolve --log ${join(TEST_DIR, 'missing.jsonl')} --json`.nothrow().quiet();
+    expect(missingProc.exitCode).toBe(EXIT_CODES.NOT_FOUND);
+    expect(JSON.parse(missingProc.stdout.toString())).toMatchObject({ success: false, error: { code: 'NOT_FOUND', exitCode: EXIT_CODES.NOT_FOUND } });
+
+    const usageProc = await $`bun run cli resolve --json`.nothrow().quiet();
+    expect(usageProc.exitCode).toBe(EXIT_CODES.USAGE);
+    expect(JSON.parse(usageProc.stdout.toString()).error.message).toBe('Either --did or --log is required for resolve command');
+  });
+
+  test("Resolve a historical version using CLI", async () => {
+    const versionLogFile = join(TEST_DIR, 'did-versions.jsonl');
+    const vm = await generateTestVerificationMethod();
+    const vmFile = await createTempVerificationMethod(vm);
+
+    expect((await $`DID_VERIFICATION_METHODS=$(cat ${vmFile}) bun run cli create --domain example.com --output ${versionLogFile}`.quiet()).exitCode).toBe(0);
+    expect((await $`DID_VERIFICATION_METHODS=$(cat ${vmFile}) bun run cli update --log ${versionLogFile} --output ${versionLogFile} --also-known-as https://example.com/v2`.quiet()).exitCode).toBe(0);
+    const log = await readLogFromDisk(versionLogFile);
+
+    const docProc = await $`bun run cli resolve --log ${versionLogFile} --version-number 1 --format document --witness-file ${join(TEST_DIR, 'no-witnesses.json')}`.quiet();
+    const doc = JSON.parse(docProc.stdout.toString());
+    expect(doc.id).toBe(log[0].state.id);
+    expect(doc.alsoKnownAs).toBeUndefined();
+
+    const metaProc = await $`bun run cli resolve --log ${versionLogFile} --version-time 2999-01-01T00:00:00Z --format metadata --witness-file ${join(TEST_DIR, 'no-witnesses.json')}`.quiet();
+    expect(JSON.parse(metaProc.stdout.toString()).versionId).toBe(log[1].versionId);
+
+    const resultProc = await $`bun run cli resolve --log ${versionLogFile} --version-id ${log[0].versionId} --format resolution --witness-file ${join(TEST_DIR, 'no-witnesses.json')}`.quiet();
+    const result = JSON.parse(resultProc.stdout.toString());
+    expect(result.didDocument.id).toBe(log[0].state.id);
+    expect(result.didDocumentMetadata.versionId).toBe(log[0].versionId);
+    expect(result.didResolutionMetadata.contentType).toBe('application/did+ld+json');
+
+    const invalidProc = await $`bun run cli resolve --log ${versionLogFile} --format yaml`.nothrow().quiet();
+    expect(invalidProc.exitCode).toBe(EXIT_CODES.USAGE);
+    expect(invalidProc.stderr.toString()).toContain("Invalid format 'yaml'");
+
+    await $`rm ${vmFile}`.quiet();
+  });
 }); 
 
 describe("Witness CLI End-to-End Tests", async () => {
@@ -259,4 +478,41 @@ describe("Witness CLI End-to-End Tests", async () => {
       throw error;
     }
   });
+
+  test("Collect and validate witness proofs using CLI", async () => {
+    const logFile = join(TEST_DIR, 'did-witnessed.jsonl');
+    const witnessFile = join(TEST_DIR, 'did-witness.json');
+    const witness1 = await generateTestVerificationMethod();
+    const witness2 = await generateEcdsaVerificationMethod('P-256');
+    const witness1DID = `did:key:${witness1.publicKeyMultibase}`;
+    const witness2DID = `did:key:${witness2.publicKeyMultibase}`;
+
+    const created = JSON.parse((await $`bun run cli create --domain example.com --output ${logFile} --witness ${witness1DID} --witness ${witness2DID} --json`.quiet()).stdout.toString());
+    const versionId = created.meta.versionId;
+
+    await $`bun run cli generate-witness-proof --version-id ${versionId} --witness-did ${witness1DID} --witness-secret ${witness1.secretKeyMultibase} --output ${witnessFile}`.quiet();
+    const partialProc = await $`bun run cli witness-file validate --log ${logFile} --witness-file ${witnessFile} --json`.nothrow().quiet();
+    expect(partialProc.exitCode).toBe(EXIT_CODES.WITNESS_FAILURE);
+    expect(JSON.parse(partialProc.stdout.toString()).issues).toEqual([{ versionId, error: `Witness threshold not met: got 1, need 2, waiting for ${witness2DID}` }]);
+
+    // A secret that doesn't match the witness DID is reported instead of thrown
+    const secondFile = join(TEST_DIR, 'did-witness-2.json');
+    const mismatchProc = await $`bun run cli generate-witness-proof --version-id ${versionId} --witness-did ${witness2DID} --witness-secret ${witness1.secretKeyMultibase} --output ${secondFile} --json`.nothrow().quiet();
+    expect(mismatchProc.exitCode).toBe(EXIT_CODES.ERROR);
+    expect(JSON.parse(mismatchProc.stdout.toString()).error.message).toBe(`The secret of ${witness2DID} isn't a P-256 secret key`);
+
+    // A second proof, here from a P-256 witness, is merged into the file instead of replacing it
+    await $`bun run cli generate-witness-proof --version-id ${versionId} --witness-did ${witness2DID} --witness-secret ${witness2.secretKeyMultibase} --output ${secondFile}`.quiet();
+    expect((await Bun.file(secondFile).json())[0].proof[0].cryptosuite).toBe('ecdsa-jcs-2019');
+    await $`bun run cli witness-file merge --witness-file ${witnessFile} --proofs ${secondFile} --proofs ${secondFile}`.quiet();
+    const merged = await Bun.file(witnessFile).json();
+    expect(merged).toHaveLength(1);
+    expect(merged[0].proof.map((proof: { verificationMethod: string }) => proof.verificationMethod.split('#')[0])).toEqual([witness1DID, witness2DID]);
+
+    const validProc = await $`bun run cli witness-file validate --log ${logFile} --witness-file ${witnessFile} --json`.quiet();
+    expect(JSON.parse(validProc.stdout.toString())).toMatchObject({ success: true, valid: true, issues: [] });
+
+    const pruned = JSON.parse((await $`bun run cli witness-file prune --log ${logFile} --witness-file ${witnessFile} --json`.quiet()).stdout.toString());
+    expect(pruned.removed).toBe(0);
+  });
 });
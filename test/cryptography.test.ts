@@ -1,10 +1,11 @@
-import { beforeAll, describe, expect, test } from "bun:test";
-import { AbstractCrypto, createDocumentSigner } from "../src/cryptography";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { AbstractCrypto, createDocumentSigner, EcdsaSigner, EcdsaVerifier, Ed25519Signer, Ed25519Verifier, generateEcdsaVerificationMethod, generateEd25519VerificationMethod, MultikeyVerifier, prepareDataForSigning } from "../src/cryptography";
+import { createDID, resolveDIDFromLog } from "../src/method";
 import { SigningInput, SigningOutput, SignerOptions, Verifier } from "../src/interfaces";
 import { documentStateIsValid } from "../src/assertions";
-import { verifyWitnessProofs } from "../src/witness";
+import { createWitnessProof, signWitnessProof, verifyWitnessProofs } from "../src/witness";
 import { MultibaseEncoding } from "../src/utils/multiformats";
-import { multibaseEncode } from "../src/utils/multiformats";
+import { decodeMultikey, multibaseDecode, multibaseEncode } from "../src/utils/multiformats";
 
 // Set environment variables for tests
 process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
@@ -210,4 +211,150 @@ describe("Injectable Cryptography Tests", () => {
       verifyWitnessProofs(logEntry, witnessProofs, witness)
     ).rejects.toThrow("Verifier implementation is required");
   });
-}); 
\ No newline at end of file
+}); 
+describe("Ed25519 Signer and Verifier", () => {
+  const originalDocumentState = process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID;
+
+  beforeAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'false';
+  });
+
+  afterAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = originalDocumentState;
+  });
+
+  test("Sign and verify with multicodec encoded keys", async () => {
+    const vm = await generateEd25519VerificationMethod('assertionMethod');
+    expect(vm.purpose).toBe('assertionMethod');
+    const signer = new Ed25519Signer({ verificationMethod: vm });
+    expect(signer.getVerificationMethodId()).toBe(`did:key:${vm.publicKeyMultibase}#${vm.publicKeyMultibase}`);
+
+    const document = { id: 'test' };
+    const proof = { type: 'DataIntegrityProof', cryptosuite: 'eddsa-jcs-2022' };
+    const { proofValue } = await signer.sign({ document, proof });
+    const signature = multibaseDecode(proofValue).bytes;
+    const message = await prepareDataForSigning(document, proof);
+    const publicKey = multibaseDecode(vm.publicKeyMultibase).bytes;
+
+    const verifier = new Ed25519Verifier();
+    expect(await verifier.verify(signature, message, publicKey.slice(2))).toBe(true);
+    expect(await verifier.verify(signature, message, publicKey)).toBe(true);
+    expect(await verifier.verify(signature, await prepareDataForSigning({ id: 'other' }, proof), publicKey)).toBe(false);
+  });
+
+  test("Accept 32 byte seeds as secret keys", async () => {
+    const vm = await generateEd25519VerificationMethod();
+    const secretKey = multibaseDecode(vm.secretKeyMultibase!).bytes;
+    const seedVm = { ...vm, secretKeyMultibase: multibaseEncode(secretKey.slice(0, 34), MultibaseEncoding.BASE58_BTC) };
+    const input = { document: { id: 'test' }, proof: { type: 'DataIntegrityProof' } };
+
+    const fromSeed = await new Ed25519Signer({ verificationMethod: seedVm }).sign(input);
+    const fromSecretKey = await new Ed25519Signer({ verificationMethod: vm }).sign(input);
+    expect(fromSeed.proofValue).toBe(fromSecretKey.proofValue);
+  });
+
+  test("Reject missing or malformed secret keys", async () => {
+    const vm = await generateEd25519VerificationMethod();
+    expect(() => new Ed25519Signer({ verificationMethod: { ...vm, secretKeyMultibase: undefined } })).toThrow('requires a verification method with secretKeyMultibase');
+    expect(() => new Ed25519Signer({ verificationMethod: { ...vm, secretKeyMultibase: vm.publicKeyMultibase } })).toThrow('ed25519-priv header');
+    await expect(new Ed25519Verifier().sign({ document: {}, proof: {} })).rejects.toThrow('cannot sign');
+  });
+
+  test("Create and resolve a DID", async () => {
+    const vm = await generateEd25519VerificationMethod();
+    const signer = new Ed25519Signer({ verificationMethod: vm });
+    const { did, log } = await createDID({
+      domain: 'example.com',
+      signer,
+      verifier: signer,
+      updateKeys: [vm.publicKeyMultibase],
+      verificationMethods: [vm]
+    });
+
+    const resolved = await resolveDIDFromLog(log, { verifier: new Ed25519Verifier() });
+    expect(resolved.did).toBe(did);
+    expect(resolved.meta.updateKeys).toEqual([vm.publicKeyMultibase]);
+  });
+});
+
+describe("ECDSA P-256 and P-384 keys", () => {
+  const originalDocumentState = process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID;
+
+  beforeAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'false';
+  });
+
+  afterAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = originalDocumentState;
+  });
+
+  for (const keyType of ['P-256', 'P-384'] as const) {
+    test(`Sign and verify ${keyType} signatures`, async () => {
+      const vm = await generateEcdsaVerificationMethod(keyType);
+      const { keyType: decodedType, key: publicKey } = decodeMultikey(vm.publicKeyMultibase);
+      expect(decodedType).toBe(keyType);
+
+      const input = { document: { id: 'test' }, proof: { type: 'DataIntegrityProof', cryptosuite: 'ecdsa-jcs-2019' } };
+      const { proofValue } = await new EcdsaSigner({ verificationMethod: vm }).sign(input);
+      const signature = multibaseDecode(proofValue).bytes;
+      const message = await prepareDataForSigning(input.document, input.proof, keyType);
+
+      expect(await new EcdsaVerifier().verify(signature, message, publicKey, keyType)).toBe(true);
+      expect(await new EcdsaVerifier().verify(signature, message, publicKey)).toBe(true);
+      expect(await new MultikeyVerifier().verify(signature, message, publicKey, keyType)).toBe(true);
+      expect(await new Ed25519Verifier().verify(signature, message, publicKey, keyType)).toBe(false);
+      expect(await new EcdsaVerifier().verify(signature, await prepareDataForSigning({ id: 'other' }, input.proof, keyType), publicKey, keyType)).toBe(false);
+    });
+
+    test(`Create and resolve a DID with a ${keyType} update key`, async () => {
+      const vm = await generateEcdsaVerificationMethod(keyType);
+      const signer = new EcdsaSigner({ verificationMethod: vm });
+      const { did, log } = await createDID({
+        domain: 'example.com',
+        signer,
+        verifier: signer,
+        updateKeys: [vm.publicKeyMultibase],
+        verificationMethods: [vm]
+      });
+      expect(log[0].proof![0].cryptosuite).toBe('ecdsa-jcs-2019');
+
+      const resolved = await resolveDIDFromLog(log, { verifier: new MultikeyVerifier() });
+      expect(resolved.did).toBe(did);
+    });
+  }
+
+  test("Reject proofs whose cryptosuite doesn't match the key type", async () => {
+    const vm = await generateEcdsaVerificationMethod('P-256');
+    const signer = new EcdsaSigner({ verificationMethod: vm });
+    const { log } = await createDID({
+      domain: 'example.com',
+      signer,
+      verifier: signer,
+      updateKeys: [vm.publicKeyMultibase],
+      verificationMethods: [vm]
+    });
+    const entry = { ...log[0], proof: [{ ...log[0].proof![0], cryptosuite: 'eddsa-jcs-2022' }] };
+
+    await expect(
+      documentStateIsValid(entry, [vm.publicKeyMultibase], null, true, new MultikeyVerifier())
+    ).rejects.toThrow("Cryptosuite eddsa-jcs-2022 cannot be used with P-256 keys");
+  });
+
+  test("Verify witness proofs from P-256 witnesses", async () => {
+    const witnessVm = await generateEcdsaVerificationMethod('P-256');
+    const witnessId = `did:key:${witnessVm.publicKeyMultibase}`;
+    const witnessSigner = new EcdsaSigner({ verificationMethod: witnessVm });
+    const versionId = '1-QmTest';
+    // The cryptosuite follows the witness key
+    const proof = await signWitnessProof(witnessSigner, versionId);
+    expect(proof).toMatchObject({ cryptosuite: 'ecdsa-jcs-2019', verificationMethod: `${witnessId}#${witnessVm.publicKeyMultibase}` });
+    expect((await createWitnessProof(async () => ({ proof: {} }), versionId, 'P-384')).cryptosuite).toBe('ecdsa-jcs-2019');
+
+    await verifyWitnessProofs(
+      { versionId } as any,
+      [{ versionId, proof: [proof] }],
+      { threshold: 1, witnesses: [{ id: witnessId }] },
+      new MultikeyVerifier()
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, updateDID } from "../src/method";
+import { dereferenceDIDURL, parseDIDURL } from "../src/dereference";
+import { MemoryLogFetcher } from "../src/fetcher";
+import { InvalidDIDURLError } from "../src/errors";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+describe("DID URL dereferencing", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let did: string;
+  let log: DIDLog;
+  let fetcher: MemoryLogFetcher;
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      paths: ['dids', 'alice'],
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    const updated = await updateDID({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      alsoKnownAs: ['https://example.com/alice'],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    did = created.did;
+    log = updated.log;
+    fetcher = new MemoryLogFetcher({
+      'https://example.com/dids/alice/did.jsonl': log.map(entry => JSON.stringify(entry)).join('\n'),
+      'https://example.com/dids/alice/did-witness.json': '[]',
+      'https://example.com/dids/alice/docs/readme.txt': 'Hello from Alice',
+      'https://example.com/dids/alice/whois.vp': '{"type":["VerifiablePresentation"]}'
+    });
+  });
+
+  test("Parse a DID URL", () => {
+    expect(parseDIDURL(`${did}/docs/readme.txt?versionNumber=1#key`)).toEqual({
+      did,
+      path: 'docs/readme.txt',
+      query: { versionNumber: '1' },
+      fragment: 'key'
+    });
+    expect(() => parseDIDURL('did:web:example.com')).toThrow(InvalidDIDURLError);
+    expect(() => parseDIDURL(`${did}/../secret`)).toThrow(`Invalid path '../secret'`);
+    expect(() => parseDIDURL(`${did}/..%2F..%2Fsecret`)).toThrow(`Invalid path '..%2F..%2Fsecret'`);
+    expect(() => parseDIDURL(`${did}/files/..%5csecret`)).toThrow(`Invalid path 'files/..%5csecret'`);
+  });
+
+  test("Dereference a DID to its document", async () => {
+    const { content, contentType } = await dereferenceDIDURL(did, { verifier: testImplementation, fetcher });
+    expect((content as any).id).toBe(did);
+    expect((content as any).alsoKnownAs).toEqual(['https://example.com/alice']);
+    expect(contentType).toBe('application/did+ld+json');
+  });
+
+  test("Select the version with query parameters", async () => {
+    const byNumber = await dereferenceDIDURL(`${did}?versionNumber=1`, { verifier: testImplementation, fetcher });
+    expect(byNumber.meta).toMatchObject({ versionId: log[0].versionId });
+
+    const byId = await dereferenceDIDURL(`${did}?versionId=${log[0].versionId}`, { verifier: testImplementation, fetcher });
+    expect((byId.content as any).alsoKnownAs).toBeUndefined();
+
+    const byTime = await dereferenceDIDURL(`${did}?versionTime=2024-01-15T00:00:00Z`, { verifier: testImplementation, fetcher });
+    expect(byTime.meta).toMatchObject({ versionId: log[0].versionId });
+
+    const invalid = await dereferenceDIDURL(`${did}?versionNumber=first`, { verifier: testImplementation, fetcher });
+    expect(invalid.meta.error).toBe('INVALID_DID_URL');
+  });
+
+  test("Dereference a fragment to a verification method or service", async () => {
+    const vmFragment = authKey.publicKeyMultibase.slice(-8);
+    const vm = await dereferenceDIDURL(`${did}#${vmFragment}`, { verifier: testImplementation, fetcher });
+    expect((vm.content as VerificationMethod).publicKeyMultibase).toBe(authKey.publicKeyMultibase);
+
+    const service = await dereferenceDIDURL(`${did}#files`, { verifier: testImplementation, fetcher });
+    expect(service.content).toMatchObject({ id: '#files', serviceEndpoint: 'https://example.com/dids/alice' });
+
+    const missing = await dereferenceDIDURL(`${did}#missing`, { verifier: testImplementation, fetcher });
+    expect(missing.content).toBeNull();
+    expect(missing.meta.error).toBe('NOT_FOUND');
+  });
+
+  test("Dereference a path through the #files service", async () => {
+    const file = await dereferenceDIDURL(`${did}/docs/readme.txt`, { verifier: testImplementation, fetcher });
+    expect(file.content).toBe('Hello from Alice');
+
+    const missing = await dereferenceDIDURL(`${did}/docs/missing.txt`, { verifier: testImplementation, fetcher });
+    expect(missing.meta.error).toBe('NOT_FOUND');
+  });
+
+  test("Dereference /whois through the #whois service", async () => {
+    const whois = await dereferenceDIDURL(`${did}/whois`, { verifier: testImplementation, fetcher });
+    expect(JSON.parse(whois.content as string).type).toEqual(['VerifiablePresentation']);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createDID, updateDID } from "../src/method";
+import { createDIDWebDoc, getDIDWebIdentifier, getDIDWebUrl, resolveDIDWeb } from "../src/didweb";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+const originalFetch = globalThis.fetch;
+
+const mockFetch = (files: Record<string, string>) => {
+  globalThis.fetch = (async (input: any) => {
+    const url = typeof input === 'string' ? input : input.url;
+    if (!(url in files)) {
+      return new Response('Not Found', { status: 404 });
+    }
+    return new Response(files[url], { status: 200 });
+  }) as typeof fetch;
+};
+
+const serializeLog = (log: DIDLog) => log.map(entry => JSON.stringify(entry)).join('\n');
+
+describe("did:web compatibility", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Derive did:web identifier and URL", () => {
+    expect(getDIDWebIdentifier('did:webvh:QmSCID:example.com:users:alice')).toBe('did:web:example.com:users:alice');
+    expect(getDIDWebUrl('did:web:example.com')).toBe('https://example.com/.well-known/did.json');
+    expect(getDIDWebUrl('did:web:example.com:users:alice')).toBe('https://example.com/users/alice/did.json');
+  });
+
+  test("Create DID returns the parallel did:web document", async () => {
+    const { did, doc, didWebDoc } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation,
+      didWeb: true
+    });
+
+    expect(didWebDoc).toBeDefined();
+    expect(didWebDoc!.id).toBe(getDIDWebIdentifier(did));
+    expect(didWebDoc!.alsoKnownAs).toEqual([did]);
+    expect(didWebDoc!.verificationMethod![0].id).toStartWith(`${didWebDoc!.id}#`);
+    expect(didWebDoc!.service!.map((s: any) => s.id)).toEqual(['#files', '#whois']);
+    expect(JSON.stringify({ ...didWebDoc, alsoKnownAs: [] })).not.toContain(doc.id.split(':')[2]);
+  });
+
+  test("Update DID returns the parallel did:web document", async () => {
+    const { did, log } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation
+    });
+    const webDid = getDIDWebIdentifier(did);
+
+    const { didWebDoc } = await updateDID({
+      log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      alsoKnownAs: [did, webDid, 'https://example.com/about'],
+      verifier: testImplementation,
+      didWeb: true
+    });
+
+    expect(didWebDoc!.alsoKnownAs).toEqual(['https://example.com/about', did]);
+  });
+
+  test("Resolve did:web DID that matches the DID log", async () => {
+    const { did, log, didWebDoc } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation,
+      didWeb: true
+    });
+
+    mockFetch({
+      'https://example.com/.well-known/did.json': JSON.stringify(didWebDoc),
+      'https://example.com/.well-known/did.jsonl': serializeLog(log)
+    });
+
+    const resolved = await resolveDIDWeb(didWebDoc!.id!, { verifier: testImplementation });
+    expect(resolved.meta.error).toBeUndefined();
+    expect(resolved.webvhDid).toBe(did);
+    expect(resolved.doc).toEqual(didWebDoc!);
+  });
+
+  test("Reject did:web DID that doesn't match the DID log", async () => {
+    const { log, didWebDoc } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation,
+      didWeb: true
+    });
+
+    mockFetch({
+      'https://example.com/.well-known/did.json': JSON.stringify({ ...didWebDoc, assertionMethod: ['did:web:example.com#other'] }),
+      'https://example.com/.well-known/did.jsonl': serializeLog(log)
+    });
+
+    const resolved = await resolveDIDWeb(didWebDoc!.id!, { verifier: testImplementation });
+    expect(resolved.doc).toBeNull();
+    expect(resolved.meta.error).toBe('INVALID_DID');
+    expect(resolved.meta.problemDetails?.detail).toContain("doesn't match the did:webvh document");
+  });
+
+  test("Report missing did.json as not found", async () => {
+    mockFetch({});
+
+    const resolved = await resolveDIDWeb('did:web:example.com', { verifier: testImplementation });
+    expect(resolved.doc).toBeNull();
+    expect(resolved.meta.error).toBe('NOT_FOUND');
+  });
+});
+
+test("createDIDWebDoc requires a did:webvh document", () => {
+  expect(() => createDIDWebDoc({ id: 'did:example:123' })).toThrow('is not a valid did:webvh identifier');
+});
@@ -11,7 +11,7 @@ describe("Domain encoding", () => {
     const { doc } = await createDID({
       domain: 'localhost:3000',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
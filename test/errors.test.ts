@@ -0,0 +1,123 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDID, resolveDIDFromLog, updateDID } from "../src/method";
+import { createErrorMeta, DIDResolutionError, HashChainError, InvalidOptionsError, NotFoundError, PortabilityError, SCIDMismatchError, WitnessThresholdError } from "../src/errors";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+const originalFetch = globalThis.fetch;
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (e) {
+    return e as DIDResolutionError;
+  }
+  throw new Error('Expected promise to reject');
+};
+
+describe("Structured resolution errors", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let log: DIDLog;
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    const updated = await updateDID({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    log = updated.log;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("Hash chain break reports the failing versionId", async () => {
+    const tampered = JSON.parse(JSON.stringify(log));
+    tampered[1].state.alsoKnownAs = ['https://attacker.example'];
+
+    const error = await rejection(resolveDIDFromLog(tampered, { verifier: testImplementation }));
+    expect(error).toBeInstanceOf(HashChainError);
+    expect(error.versionId).toBe(tampered[1].versionId);
+    expect(createErrorMeta(error)).toEqual({
+      error: 'INVALID_DID',
+      problemDetails: {
+        type: 'https://w3id.org/security#INVALID_CONTROLLED_IDENTIFIER_DOCUMENT',
+        title: 'The DID Log hash chain is broken.',
+        detail: `Hash chain broken at '${tampered[1].versionId}'`,
+        versionId: tampered[1].versionId
+      }
+    });
+  });
+
+  test("SCID mismatch is reported as SCIDMismatchError", async () => {
+    const tampered = JSON.parse(JSON.stringify(log));
+    tampered[0].parameters.scid = 'tampered';
+
+    const error = await rejection(resolveDIDFromLog(tampered, { verifier: testImplementation }));
+    expect(error).toBeInstanceOf(SCIDMismatchError);
+    expect(error.versionId).toBe(log[0].versionId);
+  });
+
+  test("Moving a non-portable DID is reported as PortabilityError", async () => {
+    const tampered = JSON.parse(JSON.stringify(log));
+    tampered[1].state.id = tampered[1].state.id.replace('example.com', 'example.org');
+
+    const error = await rejection(resolveDIDFromLog(tampered, { verifier: testImplementation }));
+    expect(error).toBeInstanceOf(PortabilityError);
+    expect(error.versionId).toBe(log[1].versionId);
+  });
+
+  test("Conflicting options are reported as INVALID_OPTIONS", async () => {
+    const error = await rejection(resolveDIDFromLog(log, { verificationMethod: '#key', versionNumber: 1, verifier: testImplementation }));
+    expect(error).toBeInstanceOf(InvalidOptionsError);
+    expect(error.code).toBe('INVALID_OPTIONS');
+  });
+
+  test("Missing witness proofs are reported as WitnessThresholdError", async () => {
+    const witness = await generateTestVerificationMethod();
+    const { log: witnessedLog } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      witness: { threshold: 1, witnesses: [{ id: `did:key:${witness.publicKeyMultibase}` }] },
+      verifier: testImplementation
+    });
+
+    const error = await rejection(resolveDIDFromLog(witnessedLog, { verifier: testImplementation, witnessProofs: [] }));
+    expect(error).toBeInstanceOf(WitnessThresholdError);
+    expect(error.versionId).toBe(witnessedLog[0].versionId);
+  });
+
+  test("resolveDID reports a missing DID log as NOT_FOUND", async () => {
+    globalThis.fetch = (async () => new Response('Not Found', { status: 404 })) as unknown as typeof fetch;
+
+    const { doc, meta } = await resolveDID('did:webvh:QmSCID:example.com', { verifier: testImplementation });
+    expect(doc).toBeNull();
+    expect(meta.error).toBe('NOT_FOUND');
+    expect(meta.problemDetails?.type).toBe('https://w3id.org/security#NOT_FOUND');
+  });
+
+  test("Unexpected errors are reported as INVALID_DID", () => {
+    expect(createErrorMeta(new Error('boom')).error).toBe('INVALID_DID');
+    expect(createErrorMeta(new NotFoundError('gone')).error).toBe('NOT_FOUND');
+  });
+});
@@ -29,7 +29,7 @@ beforeAll(async () => {
   const {doc: newDoc1, log: newLog1} = await createDID({
     domain: 'example.com',
     signer: createTestSigner(authKey1),
-    updateKeys: [authKey1.publicKeyMultibase!],
+    updateKeys: [authKey1.publicKeyMultibase],
     verificationMethods: [authKey1],
     created: createDate(new Date('2021-01-01T08:32:55Z')),
     verifier: testImplementation
@@ -38,7 +38,7 @@ beforeAll(async () => {
   const {doc: newDoc2, log: newLog2} = await updateDID({
     log: newLog1,
     signer: createTestSigner(authKey1),
-    updateKeys: [authKey2.publicKeyMultibase!],
+    updateKeys: [authKey2.publicKeyMultibase],
     context: newDoc1['@context'],
     verificationMethods: [authKey2],
     updated: createDate(new Date('2021-02-01T08:32:55Z')),
@@ -48,7 +48,7 @@ beforeAll(async () => {
   const {doc: newDoc3, log: newLog3} = await updateDID({
     log: newLog2,
     signer: createTestSigner(authKey2),
-    updateKeys: [authKey3.publicKeyMultibase!],
+    updateKeys: [authKey3.publicKeyMultibase],
     context: newDoc2['@context'],
     verificationMethods: [authKey3],
     updated: createDate(new Date('2021-03-01T08:32:55Z')),
@@ -58,7 +58,7 @@ beforeAll(async () => {
   const {doc: newDoc4, log: newLog4} = await updateDID({
     log: newLog3,
     signer: createTestSigner(authKey3),
-    updateKeys: [authKey4.publicKeyMultibase!],
+    updateKeys: [authKey4.publicKeyMultibase],
     context: newDoc3['@context'],
     verificationMethods: [authKey4],
     updated: createDate(new Date('2021-04-01T08:32:55Z')),
@@ -70,7 +70,7 @@ beforeAll(async () => {
   nonPortableDID = await createDID({
     domain: 'example.com',
     signer: createTestSigner(authKey1),
-    updateKeys: [authKey1.publicKeyMultibase!],
+    updateKeys: [authKey1.publicKeyMultibase],
     verificationMethods: [authKey1],
     created: createDate(new Date('2021-01-01T08:32:55Z')),
     portable: false, // Set portable to false
@@ -80,7 +80,7 @@ beforeAll(async () => {
   portableDID = await createDID({
     domain: 'example.com',
     signer: createTestSigner(authKey2),
-    updateKeys: [authKey2.publicKeyMultibase!],
+    updateKeys: [authKey2.publicKeyMultibase],
     verificationMethods: [authKey2],
     created: createDate(new Date('2021-01-01T08:32:55Z')),
     portable: true, // Set portable to true
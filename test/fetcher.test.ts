@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createDID, resolveDID } from "../src/method";
+import { FileSystemLogFetcher, HttpLogFetcher, MemoryLogFetcher } from "../src/fetcher";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+const toJsonl = (log: DIDLog) => log.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+
+describe("Log fetchers", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let did: string;
+  let log: DIDLog;
+  let root: string;
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      paths: ['dids', 'alice'],
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation
+    });
+    did = created.did;
+    log = created.log;
+
+    root = mkdtempSync(join(tmpdir(), 'didwebvh-'));
+    mkdirSync(join(root, 'example.com', 'dids', 'alice'), { recursive: true });
+    writeFileSync(join(root, 'example.com', 'dids', 'alice', 'did.jsonl'), toJsonl(log));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("Resolve a DID from memory", async () => {
+    const fetcher = new MemoryLogFetcher({
+      'https://example.com/dids/alice/did.jsonl': toJsonl(log),
+      'https://example.com/dids/alice/did-witness.json': '[]'
+    });
+    const resolved = await resolveDID(did, { verifier: testImplementation, fetcher });
+    expect(resolved.doc.id).toBe(did);
+    expect(resolved.meta).toMatchObject({ versionId: log[0].versionId });
+  });
+
+  test("Report a DID missing from the fetcher as NOT_FOUND", async () => {
+    const resolved = await resolveDID(did, { verifier: testImplementation, fetcher: new MemoryLogFetcher() });
+    expect(resolved.doc).toBeNull();
+    expect(resolved.meta.error).toBe('NOT_FOUND');
+  });
+
+  test("Resolve a DID from a directory mirror", async () => {
+    const resolved = await resolveDID(did, { verifier: testImplementation, fetcher: new FileSystemLogFetcher(root) });
+    expect(resolved.doc.id).toBe(did);
+
+    const fetcher = new FileSystemLogFetcher(root);
+    expect(await fetcher.fetch('https://example.com/dids/bob/did.jsonl')).toBeNull();
+
+    // Encoded separators don't reach files outside the mirror
+    writeFileSync(join(root, 'secret.txt'), 'secret');
+    await expect(fetcher.fetch('https://example.com/..%2Fsecret.txt')).rejects.toThrow('Invalid path');
+    await expect(fetcher.fetch('https://example.com/dids/..%5C..%5C..%5Csecret.txt')).rejects.toThrow('Invalid path');
+    expect(await fetcher.fetch('https://example.com/%2E%2E/secret.txt')).toBeNull();
+  });
+
+  test("HTTP fetcher sends headers and maps 404 to null", async () => {
+    const seen: Headers[] = [];
+    const fetcher = new HttpLogFetcher({
+      headers: { 'x-api-key': 'secret' },
+      fetch: (async (_url: string, init?: RequestInit) => {
+        seen.push(new Headers(init?.headers));
+        return new Response('Not Found', { status: 404 });
+      }) as unknown as typeof fetch
+    });
+
+    expect(await fetcher.fetch('https://example.com/did.jsonl')).toBeNull();
+    expect(seen[0].get('x-api-key')).toBe('secret');
+  });
+
+  test("HTTP fetcher retries server errors", async () => {
+    let calls = 0;
+    const fetcher = new HttpLogFetcher({
+      retries: 2,
+      fetch: (async () => {
+        calls++;
+        return calls < 3 ? new Response('Unavailable', { status: 503 }) : new Response('content');
+      }) as unknown as typeof fetch
+    });
+
+    expect(await fetcher.fetch('https://example.com/did.jsonl')).toBe('content');
+    expect(calls).toBe(3);
+  });
+
+  test("HTTP fetcher doesn't retry client errors", async () => {
+    let calls = 0;
+    const fetcher = new HttpLogFetcher({
+      retries: 2,
+      fetch: (async () => {
+        calls++;
+        return new Response('Forbidden', { status: 403 });
+      }) as unknown as typeof fetch
+    });
+
+    await expect(fetcher.fetch('https://example.com/did.jsonl')).rejects.toThrow('HTTP error! status: 403');
+    expect(calls).toBe(1);
+  });
+
+  test("HTTP fetcher times out", async () => {
+    const fetcher = new HttpLogFetcher({
+      timeout: 20,
+      fetch: ((_url: string, init?: RequestInit) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })) as unknown as typeof fetch
+    });
+
+    await expect(fetcher.fetch('https://example.com/did.jsonl')).rejects.toThrow('timed out after 20ms');
+  });
+});
@@ -13,7 +13,7 @@ describe("Happy Path Tests", () => {
     const { did, doc, log } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -32,7 +32,7 @@ describe("Happy Path Tests", () => {
     const { did, doc, log } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!, authKey2.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase, authKey2.publicKeyMultibase],
       verificationMethods: [authKey1, authKey2],
       verifier
     });
@@ -51,7 +51,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -60,7 +60,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey2.publicKeyMultibase!],
+      updateKeys: [authKey2.publicKeyMultibase],
       verificationMethods: [authKey2],
       verifier
     });
@@ -77,7 +77,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -87,7 +87,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey2.publicKeyMultibase!, authKey3.publicKeyMultibase!],
+      updateKeys: [authKey2.publicKeyMultibase, authKey3.publicKeyMultibase],
       verificationMethods: [authKey2, authKey3],
       verifier
     });
@@ -105,7 +105,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -114,7 +114,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       authentication: [externalDID],
       verifier
     });
@@ -132,7 +132,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog, did } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -145,7 +145,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [assertionKey, keyAgreementKey],
       verifier
     });
@@ -163,7 +163,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -177,7 +177,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       services: [service],
       verifier
     });
@@ -193,7 +193,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -202,7 +202,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       alsoKnownAs: [alias],
       verifier
     });
@@ -218,7 +218,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -227,7 +227,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       controller,
       verifier
     });
@@ -242,7 +242,7 @@ describe("Happy Path Tests", () => {
     const { log: initialLog } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier
     });
@@ -251,7 +251,7 @@ describe("Happy Path Tests", () => {
     const { doc: updatedDoc, meta } = await updateDID({
       log: initialLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       nextKeyHashes: [nextKeyHash],
       verifier
     });
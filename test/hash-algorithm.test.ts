@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDIDFromLog, rotateUpdateKeys, updateDID } from "../src/method";
+import { deriveHash, deriveNextKeyHash, getHashAlgorithm } from "../src/utils";
+import { MultihashAlgorithm } from "../src/utils/multiformats";
+import { SCIDMismatchError } from "../src/errors";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, enforceAssertions, TestCryptoImplementation } from "./utils";
+
+describe("Hash algorithm agility", () => {
+  let authKey: VerificationMethod;
+  let nextKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  enforceAssertions(['IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID', 'IGNORE_ASSERTION_HASH_CHAIN_IS_VALID', 'IGNORE_ASSERTION_SCID_IS_FROM_HASH', 'IGNORE_ASSERTION_NEW_KEYS_ARE_VALID']);
+
+  const create = (hashAlgorithm?: MultihashAlgorithm, nextKeyHashes?: string[]) => createDID({
+    domain: 'example.com',
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    verificationMethods: [authKey],
+    created: '2024-01-01T00:00:00Z',
+    hashAlgorithm,
+    nextKeyHashes,
+    verifier: testImplementation
+  });
+
+  const update = async (log: DIDLog) => (await updateDID({
+    log,
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    verificationMethods: [authKey],
+    alsoKnownAs: ['https://example.com/alice'],
+    updated: '2024-02-01T00:00:00Z',
+    verifier: testImplementation,
+    witnessProofs: []
+  })).log;
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    nextKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+  });
+
+  test("Hashes are derived with the requested algorithm", async () => {
+    expect(getHashAlgorithm(await deriveHash({ a: 1 }))).toBe(MultihashAlgorithm.SHA2_256);
+    expect(getHashAlgorithm(await deriveHash({ a: 1 }, MultihashAlgorithm.SHA3_256))).toBe(MultihashAlgorithm.SHA3_256);
+    expect(await deriveHash({ a: 1 }, MultihashAlgorithm.SHA2_384)).not.toBe(await deriveHash({ a: 1 }, MultihashAlgorithm.SHA3_384));
+    expect(getHashAlgorithm('not-a-multihash')).toBeUndefined();
+  });
+
+  for (const algorithm of [MultihashAlgorithm.SHA2_256, MultihashAlgorithm.SHA2_384, MultihashAlgorithm.SHA3_256, MultihashAlgorithm.SHA3_384]) {
+    test(`Create, update and resolve a log hashed with 0x${algorithm.toString(16)}`, async () => {
+      const { did, log } = await create(algorithm);
+      const scid = did.split(':')[2];
+      expect(getHashAlgorithm(scid)).toBe(algorithm);
+
+      const updated = await update(log);
+      expect(getHashAlgorithm(updated[1].versionId.split('-')[1])).toBe(algorithm);
+
+      const resolved = await resolveDIDFromLog(updated, { verifier: testImplementation, witnessProofs: [] });
+      expect(resolved.did).toBe(did);
+      expect(resolved.doc.alsoKnownAs).toEqual(['https://example.com/alice']);
+    });
+  }
+
+  test("A tampered SHA3 log is rejected", async () => {
+    const { log } = await create(MultihashAlgorithm.SHA3_256);
+    const tampered = [{ ...log[0], state: { ...log[0].state, alsoKnownAs: ['https://attacker.example'] } }];
+    await expect(resolveDIDFromLog(tampered, { verifier: testImplementation, witnessProofs: [] })).rejects.toThrow(SCIDMismatchError);
+  });
+
+  test("Next key hashes are checked with the algorithm they were made with", async () => {
+    const { log } = await create(MultihashAlgorithm.SHA2_256, [await deriveNextKeyHash(nextKey.publicKeyMultibase, MultihashAlgorithm.SHA3_256)]);
+    const rotated = await rotateUpdateKeys({
+      log,
+      signer: createTestSigner(nextKey),
+      newUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+
+    const resolved = await resolveDIDFromLog(rotated.log, { verifier: testImplementation, witnessProofs: [] });
+    expect(resolved.meta.updateKeys).toEqual([nextKey.publicKeyMultibase]);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDIDFromLog, updateDID } from "../src/method";
+import { createWhoisPresentation, verifyWhoisPresentation } from "../src/whois";
+import { generateEcdsaVerificationMethod, generateEd25519VerificationMethod } from "../src/cryptography";
+import { createJwkThumbprint, jwkToMultikey, multikeyToJwk } from "../src/utils/jwk";
+import { JWK_CONTEXT } from "../src/constants";
+import type { JsonWebKeyVerificationMethod, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+describe("JWK conversion", () => {
+  test("Convert Ed25519, P-256 and P-384 keys to JWK and back", async () => {
+    const vms = [
+      await generateEd25519VerificationMethod(),
+      await generateEcdsaVerificationMethod('P-256'),
+      await generateEcdsaVerificationMethod('P-384')
+    ];
+    const jwks = vms.map(vm => multikeyToJwk(vm.publicKeyMultibase));
+
+    expect(jwks.map(jwk => [jwk.kty, jwk.crv])).toEqual([['OKP', 'Ed25519'], ['EC', 'P-256'], ['EC', 'P-384']]);
+    expect(jwks[0].y).toBeUndefined();
+    expect(jwks.map(jwkToMultikey)).toEqual(vms.map(vm => vm.publicKeyMultibase));
+  });
+
+  test("Reject unsupported keys", () => {
+    expect(() => jwkToMultikey({ kty: 'RSA', crv: '', x: '' })).toThrow('Unsupported JWK RSA/');
+    expect(() => jwkToMultikey({ kty: 'EC', crv: 'P-256', x: 'AA' })).toThrow('missing the y coordinate');
+  });
+
+  test("Compute the RFC 7638 thumbprint", () => {
+    // RFC 8037, Appendix A.3
+    const jwk = { kty: 'OKP', crv: 'Ed25519', x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo', kid: 'ignored' };
+    expect(createJwkThumbprint(jwk)).toBe('kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k');
+  });
+});
+
+describe("JsonWebKey verification methods", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  const originalDocumentState = process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID;
+
+  beforeAll(async () => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'false';
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+  });
+
+  afterAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = originalDocumentState;
+  });
+
+  test("Create, update and resolve a DID with JsonWebKey verification methods", async () => {
+    const ecKey = await generateEcdsaVerificationMethod('P-256');
+    const publicKeyJwk = multikeyToJwk(ecKey.publicKeyMultibase);
+    const { did, doc, log } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [{ type: 'JsonWebKey', publicKeyJwk: { ...publicKeyJwk, d: 'secret' } }],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+
+    const id = `${did}#${createJwkThumbprint(publicKeyJwk)}`;
+    expect(doc['@context']).toContain(JWK_CONTEXT);
+    expect(doc.verificationMethod).toEqual([{ id, type: 'JsonWebKey', publicKeyJwk }]);
+    expect(doc.authentication).toEqual([id]);
+
+    const edKey = await generateEd25519VerificationMethod('assertionMethod');
+    const updated = await updateDID({
+      log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [
+        { type: 'JsonWebKey', publicKeyJwk },
+        // The legacy casing is still accepted from untyped input
+        { type: 'JsonWebKey', purpose: 'assertionMethod', publicKeyJWK: multikeyToJwk(edKey.publicKeyMultibase) } as any
+      ],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    const resolved = await resolveDIDFromLog(updated.log, { verifier: testImplementation, witnessProofs: [] });
+    expect(resolved.doc.verificationMethod.map((vm: JsonWebKeyVerificationMethod) => vm.publicKeyJwk)).toEqual([publicKeyJwk, multikeyToJwk(edKey.publicKeyMultibase)]);
+    expect(resolved.doc.verificationMethod[1].publicKeyJWK).toBeUndefined();
+    expect(resolved.doc['@context'].filter((context: string) => context === JWK_CONTEXT)).toHaveLength(1);
+  });
+
+  test("Verify a whois presentation signed by a JsonWebKey", async () => {
+    const assertionKey = await generateTestVerificationMethod('assertionMethod');
+    const publicKeyJwk = multikeyToJwk(assertionKey.publicKeyMultibase);
+    const { did, doc } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey, { type: 'JsonWebKey', purpose: 'assertionMethod', publicKeyJwk }],
+      verifier: testImplementation
+    });
+    const signer = new TestCryptoImplementation({
+      verificationMethod: { ...assertionKey, id: `${did}#${createJwkThumbprint(publicKeyJwk)}` },
+      useStaticId: false
+    });
+
+    const presentation = await createWhoisPresentation({ did, signer });
+    expect(await verifyWhoisPresentation(presentation, doc, testImplementation)).toBe(true);
+  });
+});
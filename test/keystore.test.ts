@@ -0,0 +1,85 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { join } from "path";
+import { $ } from "bun";
+import { Keystore, findSigningKey, parseKeyFile } from "../src/keystore";
+import { createDID, resolveDID, resolveDIDFromLog } from "../src/method";
+import { MemoryLogFetcher } from "../src/fetcher";
+import { generateEcdsaVerificationMethod } from "../src/cryptography";
+import { UnauthorizedKeyError } from "../src/errors";
+import { generateTestVerificationMethod } from "./utils";
+
+const KEYSTORE_DIR = join(process.cwd(), 'test', 'temp-keystore');
+
+describe("Encrypted keystore", () => {
+  const keystore = new Keystore({ dir: KEYSTORE_DIR, passphrase: 'correct horse battery staple', scryptN: 1024 });
+
+  afterAll(async () => {
+    await $`rm -rf ${KEYSTORE_DIR}`.quiet();
+  });
+
+  test("Store keys encrypted and sign without exposing them", async () => {
+    const vm = await generateTestVerificationMethod();
+    const stored = await keystore.add(vm);
+
+    const content = await Bun.file(stored.path).text();
+    expect(content).not.toContain(vm.secretKeyMultibase!);
+    expect(JSON.parse(content).encryptedSecretKey).toMatchObject({ kdf: 'scrypt', n: 1024, r: 8, p: 1, cipher: 'AES-256-GCM' });
+    expect(await keystore.find(vm.publicKeyMultibase)).toEqual(stored);
+
+    const signer = await keystore.getSigner(stored);
+    expect(JSON.stringify(signer)).not.toContain(vm.secretKeyMultibase!);
+    const { did, log } = await createDID({
+      domain: 'example.com',
+      signer,
+      verifier: signer,
+      updateKeys: [vm.publicKeyMultibase],
+      verificationMethods: [{ ...vm, secretKeyMultibase: undefined }]
+    });
+    expect((await resolveDIDFromLog(log, { verifier: signer })).did).toBe(did);
+  });
+
+  test("Reject a wrong passphrase and tampered key files", async () => {
+    const stored = await keystore.generate({ keyType: 'P-256' });
+    await expect(new Keystore({ dir: KEYSTORE_DIR, passphrase: 'wrong' }).getSigner(stored)).rejects.toThrow('the passphrase is wrong');
+    await expect(new Keystore({ dir: KEYSTORE_DIR }).getSigner(stored)).rejects.toThrow('A passphrase is required');
+
+    // The ciphertext is bound to its public key
+    const other = await generateEcdsaVerificationMethod('P-256');
+    await expect(keystore.getSigner({ ...stored, key: { ...stored.key, publicKeyMultibase: other.publicKeyMultibase } })).rejects.toThrow('the passphrase is wrong');
+
+    // The public key names the key file, so it can't point outside the keystore
+    expect(() => parseKeyFile({ ...stored.key, publicKeyMultibase: '../../escaped' }, 'escaped.json')).toThrow('escaped.json has an invalid publicKeyMultibase');
+    await expect(keystore.write({ ...stored.key, publicKeyMultibase: '../../escaped' })).rejects.toThrow('invalid publicKeyMultibase');
+    const secret = (await generateEcdsaVerificationMethod('P-256')).secretKeyMultibase!;
+    expect(() => parseKeyFile({ ...stored.key, publicKeyMultibase: secret }, 'secret.json')).toThrow('secret.json has a secret key as its publicKeyMultibase');
+
+    // A key file can't make decryption use unbounded memory
+    for (const params of [{ n: 2 ** 21 }, { n: 1000 }, { r: 64 }, { p: 16 }]) {
+      const encryptedSecretKey = { ...stored.key.encryptedSecretKey, ...params };
+      expect(() => parseKeyFile({ ...stored.key, encryptedSecretKey }, 'costly.json')).toThrow('costly.json uses unsupported scrypt parameters');
+    }
+    expect(() => new Keystore({ dir: KEYSTORE_DIR, scryptN: 2 ** 21 })).toThrow('The scrypt cost must be a power of two');
+  });
+
+  test("Group keys by DID and pick the authorized one", async () => {
+    const updateKey = await keystore.generate({ did: 'did:webvh:QmScid:example.com' });
+    const otherKey = await keystore.generate({ did: 'did:webvh:QmScid:example.com' });
+    expect(updateKey.path).toBe(join(KEYSTORE_DIR, 'QmScid', `${updateKey.key.publicKeyMultibase}.json`));
+    expect((await keystore.list('QmScid')).map(stored => stored.key.publicKeyMultibase).sort())
+      .toEqual([updateKey.key.publicKeyMultibase, otherKey.key.publicKeyMultibase].sort());
+    expect(await keystore.getActiveDIDs()).toEqual(['did:webvh:QmScid:example.com']);
+
+    const meta = { updateKeys: [updateKey.key.publicKeyMultibase], prerotation: false, nextKeyHashes: [] } as any;
+    expect(await findSigningKey(await keystore.list('QmScid'), meta)).toEqual(updateKey);
+    await expect(findSigningKey([otherKey], meta)).rejects.toThrow(UnauthorizedKeyError);
+
+    // resolveDID only reads DIDs from local files when they're passed as controlled DIDs
+    const fetcher = new MemoryLogFetcher();
+    const local = await resolveDID('did:webvh:QmScid:example.com', { controlledDIDs: await keystore.getActiveDIDs(), fetcher });
+    expect(local.controlled).toBe(true);
+    // The local log under src/routes is read, not the empty fetcher
+    expect(local.meta.error).not.toBe('NOT_FOUND');
+    const remote = await resolveDID('did:webvh:QmScid:example.com', { fetcher });
+    expect(remote).toMatchObject({ controlled: false, meta: { error: 'NOT_FOUND' } });
+  });
+});
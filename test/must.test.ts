@@ -20,7 +20,7 @@ describe("did:webvh normative tests", async () => {
     const { doc, log } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       created: '2024-01-01T08:32:55Z',
       verifier: testImplementation
@@ -53,7 +53,7 @@ describe("did:webvh normative tests", async () => {
     const { doc: updatedDoc, log: updatedLog } = await updateDID({
       log: newLog1,
       signer: createTestSigner(authKey2),
-      updateKeys: [authKey2.publicKeyMultibase!],
+      updateKeys: [authKey2.publicKeyMultibase],
       context: newDoc1['@context'],
       verificationMethods: [authKey2],
       updated: '2024-02-01T08:32:55Z',
@@ -89,21 +89,14 @@ describe("did:webvh normative witness tests", async () => {
 
   const createWitnessSigner = (verificationMethod: VerificationMethod) => {
     const signer = createTestSigner(verificationMethod);
-    return async (data: any) => {
-      const signResult = await signer.sign({
-        document: data,
-        proof: {
-          type: "DataIntegrityProof",
-          cryptosuite: "eddsa-jcs-2022",
-          verificationMethod: signer.getVerificationMethodId(),
-          created: new Date().toISOString(),
-          proofPurpose: "authentication"
-        }
-      });
-      
+    return async (data: any, options: any) => {
+      // Sign with the proof options createWitnessProof stores, including its created time
+      const proof = { ...options, verificationMethod: signer.getVerificationMethodId() };
+      const signResult = await signer.sign({ document: data, proof });
+
       return {
         proof: {
-          verificationMethod: signer.getVerificationMethodId(),
+          ...proof,
           proofValue: signResult.proofValue
         }
       };
@@ -123,7 +116,7 @@ describe("did:webvh normative witness tests", async () => {
     initialDID = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
       verifier: testImplementation,
       witness: {
@@ -137,19 +130,19 @@ describe("did:webvh normative witness tests", async () => {
     });
   });
 
-  test("witness parameter MUST use did:key DIDs", async () => {
+  test("witness parameter MUST use did:key or did:webvh DIDs", async () => {
     let err;
     try {
       const {doc, log, did} = await createDID({
         domain: 'example.com',
         signer: createTestSigner(authKey1),
-        updateKeys: [authKey1.publicKeyMultibase!],
+        updateKeys: [authKey1.publicKeyMultibase],
         verificationMethods: [authKey1],
         verifier: testImplementation,
         witness: {
           threshold: 2,
           witnesses: [
-            { id: "did:web:example.com" }, // Invalid - not did:key
+            { id: "did:web:example.com" }, // Invalid - not did:key or did:webvh
             { id: `did:key:${witness1.publicKeyMultibase}` }
           ]
         }
@@ -158,7 +151,7 @@ describe("did:webvh normative witness tests", async () => {
       err = e;
     }
     expect(err).toBeDefined();
-    expect(err.message).toContain("Witness DIDs must be did:key format");
+    expect(err.message).toContain("Witness DIDs must be did:key or did:webvh DIDs");
   });
 
   test("witness threshold MUST be met for DID updates", async () => {
@@ -22,7 +22,7 @@ describe("Not So Happy Path Tests", () => {
     initialDID = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier: testImplementation
     });
@@ -11,7 +11,7 @@ describe("Paths feature", () => {
     const { doc } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -29,7 +29,7 @@ describe("Paths feature", () => {
       domain: 'example.com',
       paths: ['api'],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -48,7 +48,7 @@ describe("Paths feature", () => {
       domain: 'example.com',
       paths: ['api', 'v1', 'users'],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -69,7 +69,7 @@ describe("Paths feature", () => {
       domain: 'example.com',
       paths: [],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -87,7 +87,7 @@ describe("Paths feature", () => {
       domain: 'example.com',
       paths: ['path-with-dash', 'path_with_underscore', 'path.with.dots'],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -108,7 +108,7 @@ describe("Paths feature", () => {
       domain: 'localhost:3000',
       paths: ['api', 'health'],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -128,7 +128,7 @@ describe("Paths feature", () => {
       domain: 'example.com',
       paths: ['api', 'v2'],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -145,7 +145,7 @@ describe("Paths feature", () => {
       domain: 'example.com',
       paths: ['secure', 'keys'],
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
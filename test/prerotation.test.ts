@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, deactivateDID, resolveDIDFromLog, rotateUpdateKeys } from "../src/method";
+import { deriveNextKeyHash } from "../src/utils";
+import { UnauthorizedKeyError } from "../src/errors";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, enforceAssertions, TestCryptoImplementation } from "./utils";
+
+describe("Pre-rotation helpers", () => {
+  let authKey: VerificationMethod;
+  let nextKey: VerificationMethod;
+  let followingKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let did: string;
+  let log: DIDLog;
+  enforceAssertions(['IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID', 'IGNORE_ASSERTION_KEY_IS_AUTHORIZED', 'IGNORE_ASSERTION_NEW_KEYS_ARE_VALID']);
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    nextKey = await generateTestVerificationMethod();
+    followingKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    did = created.did;
+    log = created.log;
+  });
+
+  test("Commit to next keys and rotate to them", async () => {
+    const committed = await rotateUpdateKeys({
+      log,
+      signer: createTestSigner(authKey),
+      newUpdateKeys: [authKey.publicKeyMultibase],
+      nextUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    expect(committed.log[1].parameters.nextKeyHashes).toEqual([await deriveNextKeyHash(nextKey.publicKeyMultibase)]);
+    expect(committed.log[1].state).toEqual(log[0].state);
+    expect(committed.meta.prerotation).toBe(true);
+
+    const rotated = await rotateUpdateKeys({
+      log: committed.log,
+      signer: createTestSigner(nextKey),
+      newUpdateKeys: [nextKey.publicKeyMultibase],
+      nextUpdateKeys: [followingKey.publicKeyMultibase],
+      updated: '2024-03-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    const resolved = await resolveDIDFromLog(rotated.log, { verifier: testImplementation, witnessProofs: [] });
+    expect(resolved.did).toBe(did);
+    expect(resolved.meta.updateKeys).toEqual([nextKey.publicKeyMultibase]);
+    expect(resolved.meta.nextKeyHashes).toEqual([await deriveNextKeyHash(followingKey.publicKeyMultibase)]);
+    expect(resolved.meta.prerotation).toBe(true);
+
+    // The committed key can still deactivate the DID
+    const deactivated = await deactivateDID({
+      log: rotated.log,
+      signer: createTestSigner(followingKey),
+      updateKeys: [followingKey.publicKeyMultibase],
+      verifier: testImplementation
+    });
+    expect(deactivated.meta.deactivated).toBe(true);
+  });
+
+  test("Reject keys that were not committed to", async () => {
+    const committed = await rotateUpdateKeys({
+      log,
+      signer: createTestSigner(authKey),
+      newUpdateKeys: [authKey.publicKeyMultibase],
+      nextUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+
+    await expect(rotateUpdateKeys({
+      log: committed.log,
+      signer: createTestSigner(followingKey),
+      newUpdateKeys: [followingKey.publicKeyMultibase],
+      updated: '2024-03-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    })).rejects.toThrow(UnauthorizedKeyError);
+  });
+
+  test("Rotating without next keys turns pre-rotation off", async () => {
+    const committed = await rotateUpdateKeys({
+      log,
+      signer: createTestSigner(authKey),
+      newUpdateKeys: [authKey.publicKeyMultibase],
+      nextUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    const rotated = await rotateUpdateKeys({
+      log: committed.log,
+      signer: createTestSigner(nextKey),
+      newUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-03-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    const resolved = await resolveDIDFromLog(rotated.log, { verifier: testImplementation, witnessProofs: [] });
+    expect(resolved.meta.prerotation).toBe(false);
+    expect(resolved.meta.updateKeys).toEqual([nextKey.publicKeyMultibase]);
+  });
+});
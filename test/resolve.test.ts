@@ -23,8 +23,9 @@ describe("resolveDIDFromLog with verificationMethod", () => {
     initialDID = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1],
+      created: '2023-01-01T00:00:00Z',
       verifier: testImplementation
     });
     fullLog = initialDID.log;
@@ -33,7 +34,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
     const updateResult1 = await updateDID({
       log: fullLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1, authKey2],
       updated: '2023-02-01T00:00:00Z',
       verifier: testImplementation
@@ -44,7 +45,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
     const updateResult2 = await updateDID({
       log: fullLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1, authKey2, keyAgreementKey],
       updated: '2023-03-01T00:00:00Z',
       verifier: testImplementation
@@ -55,7 +56,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
     const updateResult3 = await updateDID({
       log: fullLog,
       signer: createTestSigner(authKey1),
-      updateKeys: [authKey1.publicKeyMultibase!],
+      updateKeys: [authKey1.publicKeyMultibase],
       verificationMethods: [authKey1, authKey2, keyAgreementKey, assertionKey],
       updated: '2023-03-01T00:00:00Z',
       verifier: testImplementation
@@ -64,7 +65,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
   });
 
   test("Resolve DID with initial authentication key", async () => {
-    const vmId = `${initialDID.did}#${authKey1.publicKeyMultibase!.slice(-8)}`;
+    const vmId = `${initialDID.did}#${authKey1.publicKeyMultibase.slice(-8)}`;
     const { doc, meta } = await resolveDIDFromLog(fullLog, { verificationMethod: vmId, verifier: testImplementation });
     
     expect(doc.verificationMethod).toHaveLength(1);
@@ -73,7 +74,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
   });
 
   test("Resolve DID with second authentication key", async () => {
-    const vmId = `${initialDID.did}#${authKey2.publicKeyMultibase!.slice(-8)}`;
+    const vmId = `${initialDID.did}#${authKey2.publicKeyMultibase.slice(-8)}`;
     const { doc, meta } = await resolveDIDFromLog(fullLog, { verificationMethod: vmId, verifier: testImplementation });
     
     expect(doc.verificationMethod).toHaveLength(2);
@@ -82,7 +83,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
   });
 
   test("Resolve DID with keyAgreement key", async () => {
-    const vmId = `${initialDID.did}#${keyAgreementKey.publicKeyMultibase!.slice(-8)}`;
+    const vmId = `${initialDID.did}#${keyAgreementKey.publicKeyMultibase.slice(-8)}`;
     const { doc, meta } = await resolveDIDFromLog(fullLog, { verificationMethod: vmId, verifier: testImplementation });
     
     expect(doc.verificationMethod).toHaveLength(3);
@@ -91,7 +92,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
   });
 
   test("Resolve DID with assertion authentication key (externally defined id)", async () => {
-    const vmId = `${initialDID.did}#${assertionKey.publicKeyMultibase!.slice(-8)}`;
+    const vmId = `${initialDID.did}#${assertionKey.publicKeyMultibase.slice(-8)}`;
     const { doc, meta } = await resolveDIDFromLog(fullLog, { verificationMethod: vmId, verifier: testImplementation });
     
     expect(doc.verificationMethod).toHaveLength(4);
@@ -111,7 +112,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
   });
 
   test("Resolve DID with verification method and version time", async () => {
-    const vmId = `${initialDID.did}#${authKey2.publicKeyMultibase!.slice(-8)}`;
+    const vmId = `${initialDID.did}#${authKey2.publicKeyMultibase.slice(-8)}`;
     const { doc, meta } = await resolveDIDFromLog(fullLog, { 
       verificationMethod: vmId, 
       versionTime: new Date('2023-02-15T00:00:00Z'),
@@ -124,7 +125,7 @@ describe("resolveDIDFromLog with verificationMethod", () => {
   });
 
   test("Throw error when both verificationMethod and versionNumber are specified", async () => {
-    const vmId = `${initialDID.did}#${authKey1.publicKeyMultibase!.slice(-8)}`;
+    const vmId = `${initialDID.did}#${authKey1.publicKeyMultibase.slice(-8)}`;
     let error: Error | null = null;
     
     try {
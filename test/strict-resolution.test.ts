@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDIDFromLog, updateDID } from "../src/method";
+import { deriveHash } from "../src/utils";
+import { PLACEHOLDER } from "../src/constants";
+import { LegacyEntryHashError } from "../src/errors";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+describe("Strict resolution", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let log: DIDLog;
+  const originalEnv = {
+    documentState: process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID,
+    keyAuthorized: process.env.IGNORE_ASSERTION_KEY_IS_AUTHORIZED
+  };
+
+  const setVerification = (enabled: boolean) => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = enabled ? 'false' : 'true';
+    process.env.IGNORE_ASSERTION_KEY_IS_AUTHORIZED = enabled ? 'false' : 'true';
+  };
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    setVerification(true);
+
+    let result = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    for (let i = 1; i < 13; i++) {
+      result = await updateDID({
+        log: result.log,
+        signer: createTestSigner(authKey),
+        updateKeys: [authKey.publicKeyMultibase],
+        verificationMethods: [authKey],
+        alsoKnownAs: [`https://example.com/v${i}`],
+        updated: `2024-01-${String(i + 1).padStart(2, '0')}T00:00:00Z`,
+        verifier: testImplementation
+      });
+    }
+    log = result.log;
+  });
+
+  afterAll(() => {
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = originalEnv.documentState;
+    process.env.IGNORE_ASSERTION_KEY_IS_AUTHORIZED = originalEnv.keyAuthorized;
+  });
+
+  test("Resolve a valid log verifying every entry", async () => {
+    setVerification(true);
+    const resolved = await resolveDIDFromLog(log, { verifier: testImplementation });
+    expect(resolved.meta.versionId).toBe(log[12].versionId);
+  });
+
+  test("Entries chain to the previous versionId", async () => {
+    const tampered = JSON.parse(JSON.stringify(log));
+    tampered.splice(3, 1);
+    tampered.forEach((entry: any, i: number) => {
+      entry.versionId = `${i + 1}-${entry.versionId.split('-')[1]}`;
+    });
+
+    setVerification(false);
+    await expect(resolveDIDFromLog(tampered, { verifier: testImplementation })).rejects.toThrow(`Hash chain broken at '4-`);
+  });
+
+  test("Only accept legacy entry hashes when asked to", async () => {
+    const legacy = JSON.parse(JSON.stringify(log.slice(0, 2)));
+    const { proof, ...rest } = legacy[1];
+    legacy[1].versionId = `2-${await deriveHash({ ...rest, versionId: PLACEHOLDER })}`;
+
+    setVerification(false);
+    await expect(resolveDIDFromLog(legacy, { verifier: testImplementation })).rejects.toThrow(`Hash chain broken at '${legacy[1].versionId}'`);
+    await expect(resolveDIDFromLog(legacy, { verifier: testImplementation })).rejects.toThrow(LegacyEntryHashError);
+    await expect(resolveDIDFromLog(legacy, { verifier: testImplementation })).rejects.toThrow('Pass allowLegacyEntryHash to accept it');
+    const resolved = await resolveDIDFromLog(legacy, { verifier: testImplementation, allowLegacyEntryHash: true });
+    expect(resolved.meta.versionId).toBe(legacy[1].versionId);
+
+    // Controllers can keep updating the DID, and the new entry chains to the legacy one
+    const update = { log: legacy, signer: createTestSigner(authKey), updateKeys: [authKey.publicKeyMultibase], verifier: testImplementation };
+    await expect(updateDID(update)).rejects.toThrow(LegacyEntryHashError);
+    const updated = await updateDID({ ...update, allowLegacyEntryHash: true });
+    expect((await resolveDIDFromLog(updated.log, { verifier: testImplementation, allowLegacyEntryHash: true })).meta.versionId).toBe(updated.log[2].versionId);
+  });
+
+  test("Reject a forged middle entry", async () => {
+    const forged = JSON.parse(JSON.stringify(log));
+    forged[2].state.alsoKnownAs = ['https://attacker.example'];
+
+    setVerification(false);
+    await expect(resolveDIDFromLog(forged, { verifier: testImplementation })).rejects.toThrow(`Hash chain broken at '${forged[2].versionId}'`);
+  });
+
+  test("Reject a middle entry signed by an unauthorized key", async () => {
+    const attackerKey = await generateTestVerificationMethod();
+    const attackerImplementation = new TestCryptoImplementation({ verificationMethod: attackerKey });
+
+    setVerification(false);
+    const { log: attackerLog } = await updateDID({
+      log: log.slice(0, 2),
+      signer: createTestSigner(attackerKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      updated: '2024-01-02T12:00:00Z',
+      verifier: attackerImplementation
+    });
+
+    setVerification(true);
+    await expect(resolveDIDFromLog(attackerLog, { verifier: testImplementation })).rejects.toThrow('is not authorized to update');
+  });
+
+  test("Fast resolution skips middle entries when requested", async () => {
+    const forged = JSON.parse(JSON.stringify(log));
+    forged[1].state.alsoKnownAs = ['https://attacker.example'];
+
+    setVerification(false);
+    const resolved = await resolveDIDFromLog(forged, { verifier: testImplementation, fastResolve: true });
+    expect(resolved.meta.versionId).toBe(log[12].versionId);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDIDFromLog, updateDID } from "../src/method";
+import { TimestampError } from "../src/errors";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+describe("Log entry timestamps", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let log: DIDLog;
+  const originalHashChain = process.env.IGNORE_ASSERTION_HASH_CHAIN_IS_VALID;
+
+  beforeAll(async () => {
+    // Tampered entries keep their original versionId, so only the timestamp checks apply
+    process.env.IGNORE_ASSERTION_HASH_CHAIN_IS_VALID = 'true';
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    let result = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    for (const updated of ['2024-02-01T00:00:00Z', '2024-03-01T00:00:00Z']) {
+      result = await updateDID({
+        log: result.log,
+        signer: createTestSigner(authKey),
+        updateKeys: [authKey.publicKeyMultibase],
+        verificationMethods: [authKey],
+        updated,
+        verifier: testImplementation
+      });
+    }
+    log = result.log;
+  });
+
+  afterAll(() => {
+    process.env.IGNORE_ASSERTION_HASH_CHAIN_IS_VALID = originalHashChain;
+  });
+
+  const withEntry = (index: number, changes: (entry: any) => void): DIDLog => {
+    const tampered = JSON.parse(JSON.stringify(log));
+    changes(tampered[index]);
+    return tampered;
+  };
+
+  test("Resolve a log with increasing timestamps", async () => {
+    const resolved = await resolveDIDFromLog(log, { verifier: testImplementation });
+    expect(resolved.meta.updated).toBe('2024-03-01T00:00:00Z');
+  });
+
+  test("Reject versionTime going backwards", async () => {
+    const tampered = withEntry(2, entry => {
+      entry.versionTime = '2024-01-15T00:00:00Z';
+      entry.proof[0].created = '2024-01-15T00:00:00Z';
+    });
+    const promise = resolveDIDFromLog(tampered, { verifier: testImplementation });
+    await expect(promise).rejects.toBeInstanceOf(TimestampError);
+    await expect(promise).rejects.toThrow(`is earlier than the previous entry's`);
+  });
+
+  test("Allow entries with the same versionTime", async () => {
+    const tampered = withEntry(2, entry => {
+      entry.versionTime = '2024-02-01T00:00:00Z';
+      entry.proof[0].created = '2024-02-01T00:00:00Z';
+    });
+    const resolved = await resolveDIDFromLog(tampered, { verifier: testImplementation });
+    expect(resolved.meta.updated).toBe('2024-02-01T00:00:00Z');
+  });
+
+  test("Reject entries dated in the future beyond the clock skew", async () => {
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const tampered = withEntry(2, entry => {
+      entry.versionTime = future;
+      entry.proof[0].created = future;
+    });
+    await expect(resolveDIDFromLog(tampered, { verifier: testImplementation })).rejects.toThrow('is in the future');
+
+    const resolved = await resolveDIDFromLog(tampered, { verifier: testImplementation, maxClockSkew: 2 * 60 * 60 });
+    expect(resolved.meta.updated).toBe(future);
+  });
+
+  test("Reject proofs created before the entry they sign", async () => {
+    const tampered = withEntry(1, entry => {
+      entry.proof[0].created = '2024-01-20T00:00:00Z';
+    });
+    const promise = resolveDIDFromLog(tampered, { verifier: testImplementation });
+    await expect(promise).rejects.toBeInstanceOf(TimestampError);
+    await expect(promise).rejects.toThrow(`Proof created '2024-01-20T00:00:00Z' is earlier than versionTime`);
+  });
+
+  test("Reject an unparseable versionTime", async () => {
+    const tampered = withEntry(1, entry => {
+      entry.versionTime = 'yesterday';
+    });
+    await expect(resolveDIDFromLog(tampered, { verifier: testImplementation })).rejects.toThrow(`Invalid versionTime 'yesterday'`);
+  });
+});
@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDID, resolveDIDFromLog, updateDID } from "../src/method";
+import { MemoryResolutionCache } from "../src/cache";
+import { MemoryLogFetcher } from "../src/fetcher";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+describe("ttl parameter", () => {
+  let authKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+
+  const create = (ttl?: number) => createDID({
+    domain: 'example.com',
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    verificationMethods: [authKey],
+    created: '2024-01-01T00:00:00Z',
+    ttl,
+    verifier: testImplementation
+  });
+
+  const update = (log: DIDLog, updated: string, ttl?: number) => updateDID({
+    log,
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    verificationMethods: [authKey],
+    updated,
+    ttl,
+    verifier: testImplementation,
+    witnessProofs: []
+  });
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+  });
+
+  test("ttl is written to the log and reported in the metadata", async () => {
+    const created = await create(600);
+    expect(created.log[0].parameters.ttl).toBe(600);
+    expect(created.meta.ttl).toBe(600);
+
+    const resolved = await resolveDIDFromLog(created.log, { verifier: testImplementation, witnessProofs: [] });
+    expect(resolved.meta.ttl).toBe(600);
+  });
+
+  test("ttl carries over updates until it is changed", async () => {
+    const created = await create(600);
+    const unchanged = await update(created.log, '2024-02-01T00:00:00Z');
+    expect(unchanged.log[1].parameters).not.toHaveProperty('ttl');
+    expect((await resolveDIDFromLog(unchanged.log, { verifier: testImplementation, witnessProofs: [] })).meta.ttl).toBe(600);
+
+    const changed = await update(unchanged.log, '2024-03-01T00:00:00Z', 60);
+    expect(changed.log[2].parameters.ttl).toBe(60);
+    expect((await resolveDIDFromLog(changed.log, { verifier: testImplementation, witnessProofs: [] })).meta.ttl).toBe(60);
+    expect((await resolveDIDFromLog(changed.log, { verifier: testImplementation, witnessProofs: [], versionNumber: 2 })).meta.ttl).toBe(600);
+  });
+
+  test("ttl is omitted when not set", async () => {
+    const created = await create();
+    expect(created.log[0].parameters).not.toHaveProperty('ttl');
+    expect((await resolveDIDFromLog(created.log, { verifier: testImplementation, witnessProofs: [] })).meta.ttl).toBeUndefined();
+  });
+
+  test("Reject an invalid ttl", async () => {
+    await expect(create(-1)).rejects.toThrow(`Invalid ttl '-1'`);
+    await expect(create(1.5)).rejects.toThrow(`Invalid ttl '1.5'`);
+  });
+
+  test("The resolution cache serves a DID without fetching until its ttl expires", async () => {
+    const created = await create(600);
+    const url = 'https://example.com/.well-known/did.jsonl';
+    const fetcher = new MemoryLogFetcher({ [url]: JSON.stringify(created.log[0]) });
+    const cache = new MemoryResolutionCache();
+
+    await resolveDID(created.did, { verifier: testImplementation, fetcher, cache });
+    fetcher.delete(url);
+
+    const cachedResult = await resolveDID(created.did, { verifier: testImplementation, fetcher, cache });
+    expect(cachedResult.doc.id).toBe(created.did);
+
+    const entry = (await cache.get(created.did))!;
+    expect(entry.expires! - Date.now()).toBeGreaterThan(590 * 1000);
+    await cache.set(created.did, { ...entry, expires: Date.now() - 1 });
+
+    const expired = await resolveDID(created.did, { verifier: testImplementation, fetcher, cache });
+    expect(expired.meta.error).toBe('NOT_FOUND');
+  });
+});
@@ -1,5 +1,7 @@
+import { afterAll, beforeAll } from "bun:test";
 import { deriveHash } from '../src/utils';
-import type { DIDLogEntry, DIDLog } from '../src/interfaces';
+import { signWitnessProof } from '../src/witness';
+import type { DIDLogEntry, DIDLog, DataIntegrityProof } from '../src/interfaces';
 import { AbstractCrypto } from "../src/cryptography";
 import { SigningInput, SigningOutput, SignerOptions, Verifier, VerificationMethod, Signer } from "../src/interfaces";
 import * as crypto from '@stablelib/ed25519';
@@ -32,7 +34,7 @@ export class TestCryptoImplementation extends AbstractCrypto implements Verifier
       this.keyPair = keyPair;
     } else {
       const secretKey = multibaseDecode(options.verificationMethod.secretKeyMultibase).bytes;
-      const publicKey = multibaseDecode(options.verificationMethod.publicKeyMultibase!).bytes;
+      const publicKey = multibaseDecode(options.verificationMethod.publicKeyMultibase).bytes;
       this.keyPair = { publicKey, secretKey };
     }
   }
@@ -82,4 +84,33 @@ export function createTestSigner(verificationMethod: VerificationMethod): Signer
 // Helper to create a test verifier
 export function createTestVerifier(verificationMethod: VerificationMethod): Verifier {
   return new TestCryptoImplementation({ verificationMethod });
-}
\ No newline at end of file
+}
+
+// The assertions test files may bypass with IGNORE_ASSERTION_* variables
+export const ASSERTION_ENVS = [
+  'IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID',
+  'IGNORE_ASSERTION_KEY_IS_AUTHORIZED',
+  'IGNORE_ASSERTION_HASH_CHAIN_IS_VALID',
+  'IGNORE_ASSERTION_NEW_KEYS_ARE_VALID',
+  'IGNORE_ASSERTION_SCID_IS_FROM_HASH',
+  'IGNORE_ASSERTION_TIMESTAMPS_ARE_VALID'
+];
+
+// Helper to run the assertions in a describe block, restoring the bypasses after it
+export function enforceAssertions(names: string[] = ASSERTION_ENVS): void {
+  const originalEnv = names.map(name => process.env[name]);
+  beforeAll(() => {
+    names.forEach(name => process.env[name] = 'false');
+  });
+  afterAll(() => {
+    names.forEach((name, i) => process.env[name] = originalEnv[i]);
+  });
+}
+
+// Helper to sign a witness proof with a did:key, or with a key of the given did:webvh DID
+export function createTestWitnessProof(witness: VerificationMethod, versionId: string, did?: string): Promise<DataIntegrityProof> {
+  const signer = did
+    ? new TestCryptoImplementation({ verificationMethod: { ...witness, id: `${did}#${witness.publicKeyMultibase.slice(-8)}` }, useStaticId: false })
+    : createTestSigner(witness);
+  return signWitnessProof(signer, versionId, 'Ed25519');
+}
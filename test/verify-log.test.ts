@@ -0,0 +1,224 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, resolveDIDFromLog, rotateUpdateKeys, updateDID, verifyLog } from "../src/method";
+import { WitnessThresholdError } from "../src/errors";
+import { deriveNextKeyHash } from "../src/utils";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, createTestWitnessProof, enforceAssertions, TestCryptoImplementation } from "./utils";
+
+describe("Log verification report", () => {
+  let authKey: VerificationMethod;
+  let nextKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let did: string;
+  let log: DIDLog;
+  enforceAssertions();
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    nextKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      verifier: testImplementation
+    });
+    did = created.did;
+    const committed = await rotateUpdateKeys({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      newUpdateKeys: [authKey.publicKeyMultibase],
+      nextUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    });
+    log = (await rotateUpdateKeys({
+      log: committed.log,
+      signer: createTestSigner(nextKey),
+      newUpdateKeys: [nextKey.publicKeyMultibase],
+      updated: '2024-03-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: []
+    })).log;
+  });
+
+  test("Report every check of a valid log", async () => {
+    const report = await verifyLog(log, { verifier: testImplementation, witnessProofs: [] });
+
+    expect(report).toMatchObject({ did, scid: log[0].parameters.scid, valid: true });
+    expect(report.entries.map(entry => entry.versionId)).toEqual(log.map(entry => entry.versionId));
+    expect(report.entries.every(entry => entry.valid)).toBe(true);
+
+    const [first, second, third] = report.entries;
+    expect(first.checks.scid).toEqual({ valid: true });
+    expect(first.checks.portability).toBeUndefined();
+    expect(first.checks.proof.signers).toEqual([{
+      verificationMethod: `did:key:${authKey.publicKeyMultibase}#${authKey.publicKeyMultibase}`,
+      cryptosuite: 'eddsa-jcs-2022',
+      created: '2024-01-01T00:00:00Z'
+    }]);
+    expect(first.parameterChanges.updateKeys).toEqual({ to: [authKey.publicKeyMultibase] });
+
+    expect(second.checks.scid).toBeUndefined();
+    expect(second.checks.prerotation).toBeUndefined();
+    expect(second.parameterChanges).toEqual({
+      nextKeyHashes: { from: [], to: [await deriveNextKeyHash(nextKey.publicKeyMultibase)] }
+    });
+
+    expect(third.checks.prerotation).toEqual({ valid: true });
+    expect(third.checks.proof.authorizedKeys).toEqual([nextKey.publicKeyMultibase]);
+    expect(third.parameterChanges.updateKeys).toEqual({ from: [authKey.publicKeyMultibase], to: [nextKey.publicKeyMultibase] });
+  });
+
+  test("Report failures without stopping at the first one", async () => {
+    const tampered: DIDLog = JSON.parse(JSON.stringify(log));
+    tampered[1].state.alsoKnownAs = ['https://attacker.example'];
+    tampered[2].versionTime = '2023-01-01T00:00:00Z';
+
+    const report = await verifyLog(tampered, { verifier: testImplementation, witnessProofs: [] });
+    expect(report.valid).toBe(false);
+
+    const [first, second, third] = report.entries;
+    expect(first.valid).toBe(true);
+    expect(second.valid).toBe(false);
+    expect(second.checks.hashChain.valid).toBe(false);
+    expect(second.checks.proof).toMatchObject({ valid: false, code: 'INVALID_DID' });
+    expect(third.valid).toBe(false);
+    expect(third.checks.timestamps).toMatchObject({ valid: false, code: 'INVALID_DID' });
+    expect(third.checks.timestamps.error).toContain('earlier than the previous entry');
+    expect(third.checks.prerotation).toEqual({ valid: true });
+  });
+
+  test("Count witness approvals against the threshold", async () => {
+    const witness1 = await generateTestVerificationMethod();
+    const witness2 = await generateTestVerificationMethod();
+    const witness = {
+      threshold: 2,
+      witnesses: [{ id: `did:key:${witness1.publicKeyMultibase}` }, { id: `did:key:${witness2.publicKeyMultibase}` }]
+    };
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      witness,
+      verifier: testImplementation
+    });
+    const updated = await updateDID({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      alsoKnownAs: ['https://example.com/v2'],
+      witness,
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: created.log[0].versionId,
+        proof: [await createTestWitnessProof(witness1, created.log[0].versionId), await createTestWitnessProof(witness2, created.log[0].versionId)]
+      }]
+    });
+    const witnessedLog = updated.log;
+    const lastVersionId = witnessedLog.at(-1)!.versionId;
+
+    const partial = await verifyLog(witnessedLog, {
+      verifier: testImplementation,
+      witnessProofs: [{ versionId: lastVersionId, proof: [await createTestWitnessProof(witness1, lastVersionId)] }]
+    });
+    expect(partial.valid).toBe(false);
+    expect(partial.entries.at(-1)!.checks.witnesses).toMatchObject({ valid: false, threshold: 2, approvals: 1 });
+
+    // A proof for a later version approves the earlier ones too
+    const approved = await verifyLog(witnessedLog, {
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: lastVersionId,
+        proof: [await createTestWitnessProof(witness1, lastVersionId), await createTestWitnessProof(witness2, lastVersionId)]
+      }]
+    });
+    expect(approved.valid).toBe(true);
+    expect(approved.entries.map(entry => entry.checks.witnesses?.approvals)).toEqual(witnessedLog.map(() => 2));
+    expect(approved.entries[0].checks.witnesses!.approvedBy).toEqual([`did:key:${witness1.publicKeyMultibase}`, `did:key:${witness2.publicKeyMultibase}`]);
+  });
+
+  test("Require the replaced witnesses to approve a change of witnesses", async () => {
+    const outgoing = await generateTestVerificationMethod();
+    const incoming = await generateTestVerificationMethod();
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      created: '2024-01-01T00:00:00Z',
+      witness: { threshold: 1, witnesses: [{ id: `did:key:${outgoing.publicKeyMultibase}` }] },
+      verifier: testImplementation
+    });
+    const firstVersionId = created.log[0].versionId;
+    const witnessProofs = [{ versionId: firstVersionId, proof: [await createTestWitnessProof(outgoing, firstVersionId)] }];
+    // Updates keep the current witnesses unless they're given
+    const unchanged = await updateDID({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs
+    });
+    expect(unchanged.log[1].parameters.witness).toEqual(created.log[0].parameters.witness!);
+
+    const replaced = (await updateDID({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      witness: { threshold: 1, witnesses: [{ id: `did:key:${incoming.publicKeyMultibase}` }] },
+      updated: '2024-02-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs
+    })).log;
+    const replacedVersionId = replaced[1].versionId;
+
+    const pending = await verifyLog(replaced, {
+      verifier: testImplementation,
+      witnessProofs: [...witnessProofs, { versionId: replacedVersionId, proof: [await createTestWitnessProof(incoming, replacedVersionId)] }]
+    });
+    expect(pending.valid).toBe(false);
+    expect(pending.entries[1].checks.witnesses).toMatchObject({ valid: true, approvals: 1 });
+    expect(pending.entries[1].checks.previousWitnesses).toMatchObject({ valid: false, threshold: 1, approvals: 0 });
+
+    const approved = await verifyLog(replaced, {
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: replacedVersionId,
+        proof: [await createTestWitnessProof(incoming, replacedVersionId), await createTestWitnessProof(outgoing, replacedVersionId)]
+      }]
+    });
+    expect(approved.valid).toBe(true);
+    expect(approved.entries[1].checks.previousWitnesses!.approvedBy).toEqual([`did:key:${outgoing.publicKeyMultibase}`]);
+
+    // The replaced witness can't approve the change through an entry after it, which it can't witness
+    const extended = (await updateDID({
+      log: replaced,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      alsoKnownAs: ['https://example.com/v3'],
+      updated: '2024-03-01T00:00:00Z',
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: replacedVersionId,
+        proof: [await createTestWitnessProof(incoming, replacedVersionId), await createTestWitnessProof(outgoing, replacedVersionId)]
+      }]
+    })).log;
+    const lastVersionId = extended[2].versionId;
+    const lateProofs = [{
+      versionId: lastVersionId,
+      proof: [await createTestWitnessProof(incoming, lastVersionId), await createTestWitnessProof(outgoing, lastVersionId)]
+    }];
+    const late = await verifyLog(extended, { verifier: testImplementation, witnessProofs: lateProofs });
+    expect(late.valid).toBe(false);
+    expect(late.entries[1].checks.previousWitnesses).toMatchObject({ valid: false, approvals: 0 });
+    await expect(resolveDIDFromLog(extended, { verifier: testImplementation, witnessProofs: lateProofs })).rejects.toThrow(WitnessThresholdError);
+  });
+});
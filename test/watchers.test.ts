@@ -13,7 +13,7 @@ describe("Watcher Handling", () => {
     const { log } = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       watchers,
       verifier
@@ -31,7 +31,7 @@ describe("Watcher Handling", () => {
     const initial = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       watchers,
       verifier
@@ -40,7 +40,7 @@ describe("Watcher Handling", () => {
     const updated = await updateDID({
       log: initial.log,
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier
     });
@@ -57,7 +57,7 @@ describe("Watcher Handling", () => {
     const initial = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       watchers,
       verifier
@@ -66,7 +66,7 @@ describe("Watcher Handling", () => {
     const updated = await updateDID({
       log: initial.log,
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       watchers: null,
       verifier
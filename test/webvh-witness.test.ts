@@ -0,0 +1,160 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, deactivateDID, resolveDIDFromLog, updateDID } from "../src/method";
+import { MemoryLogFetcher } from "../src/fetcher";
+import { resolveVM } from "../src/utils";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { UnauthorizedKeyError } from "../src/errors";
+import { generateTestVerificationMethod, createTestSigner, createTestWitnessProof, enforceAssertions, TestCryptoImplementation } from "./utils";
+
+describe("did:webvh witnesses", () => {
+  let authKey: VerificationMethod;
+  let witnessKey: VerificationMethod;
+  let controllerKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let witnessDID: string;
+  let witnessLog: DIDLog;
+  let witnessVM: string;
+  enforceAssertions();
+
+  // Counts the requests, to check that witness keys are cached
+  class CountingFetcher extends MemoryLogFetcher {
+    requests: string[] = [];
+
+    async fetch(url: string) {
+      this.requests.push(url);
+      return super.fetch(url);
+    }
+  }
+
+  const createWitnessedDID = (witnesses: string[]) => createDID({
+    domain: 'example.com',
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    verificationMethods: [authKey, controllerKey],
+    witness: { threshold: 1, witnesses: witnesses.map(id => ({ id })) },
+    verifier: testImplementation
+  });
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    witnessKey = await generateTestVerificationMethod();
+    controllerKey = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const witness = await createDID({
+      domain: 'witness.example',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey, witnessKey],
+      verifier: testImplementation
+    });
+    witnessDID = witness.did;
+    witnessLog = witness.log;
+    witnessVM = `${witnessDID}#${witnessKey.publicKeyMultibase.slice(-8)}`;
+  });
+
+  test("Accept did:key and did:webvh witnesses only", async () => {
+    const created = await createWitnessedDID([witnessDID, `did:key:${witnessKey.publicKeyMultibase}`]);
+    expect(created.meta.witness!.witnesses!.map(({ id }) => id)).toEqual([witnessDID, `did:key:${witnessKey.publicKeyMultibase}`]);
+    await expect(createWitnessedDID(['did:web:witness.example'])).rejects.toThrow('Witness DIDs must be did:key or did:webvh DIDs');
+  });
+
+  test("Resolve the keys of did:webvh witnesses once", async () => {
+    const { did, log } = await createWitnessedDID([witnessDID]);
+    const fetcher = new CountingFetcher({ 'https://witness.example/.well-known/did.jsonl': witnessLog.map(entry => JSON.stringify(entry)).join('\n') });
+    const witnessProofs = [{ versionId: log[0].versionId, proof: [await createTestWitnessProof(witnessKey, log[0].versionId, witnessDID)] }];
+
+    expect((await resolveDIDFromLog(log, { verifier: testImplementation, fetcher, witnessProofs })).did).toBe(did);
+    expect((await resolveDIDFromLog(log, { verifier: testImplementation, fetcher, witnessProofs })).did).toBe(did);
+    expect(fetcher.requests.filter(url => url === 'https://witness.example/.well-known/did.jsonl')).toHaveLength(1);
+
+    // A proof from a key the witness DID doesn't have is rejected
+    const stranger = await generateTestVerificationMethod();
+    await expect(resolveDIDFromLog(log, {
+      verifier: testImplementation,
+      fetcher,
+      witnessProofs: [{ versionId: log[0].versionId, proof: [await createTestWitnessProof(stranger, log[0].versionId, witnessDID)] }]
+    })).rejects.toThrow('Invalid witness proof');
+  });
+
+  test("Reject log entries signed by a did:webvh key", async () => {
+    const { log } = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation
+    });
+    const witnessSigner = new TestCryptoImplementation({ verificationMethod: { ...witnessKey, id: witnessVM }, useStaticId: false });
+    let forged: DIDLog;
+    process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+    try {
+      forged = (await updateDID({
+        log,
+        signer: witnessSigner,
+        updateKeys: [authKey.publicKeyMultibase],
+        alsoKnownAs: ['https://attacker.example'],
+        verifier: testImplementation
+      })).log;
+    } finally {
+      process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'false';
+    }
+
+    // Only update keys sign entries, even when the key's DID resolves
+    const fetcher = new MemoryLogFetcher({ 'https://witness.example/.well-known/did.jsonl': witnessLog.map(entry => JSON.stringify(entry)).join('\n') });
+    await expect(resolveDIDFromLog(forged, { verifier: testImplementation, fetcher })).rejects.toThrow(UnauthorizedKeyError);
+  });
+
+  test("Stop witnesses that witness each other from looping", async () => {
+    const { did, log } = await createWitnessedDID([witnessDID]);
+    // The witness DID is in turn witnessed by the DID it witnesses
+    const witnessedWitnessLog = (await updateDID({
+      log: witnessLog,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey, witnessKey],
+      witness: { threshold: 1, witnesses: [{ id: did }] },
+      verifier: testImplementation
+    })).log;
+    const fetcher = new MemoryLogFetcher({
+      'https://witness.example/.well-known/did.jsonl': witnessedWitnessLog.map(entry => JSON.stringify(entry)).join('\n'),
+      'https://witness.example/.well-known/did-witness.json': JSON.stringify([{
+        versionId: witnessedWitnessLog[1].versionId,
+        proof: [await createTestWitnessProof(controllerKey, witnessedWitnessLog[1].versionId, did)]
+      }]),
+      'https://example.com/.well-known/did.jsonl': log.map(entry => JSON.stringify(entry)).join('\n')
+    });
+
+    await expect(resolveVM(witnessVM, fetcher, testImplementation, [witnessDID])).rejects.toThrow(`${witnessDID} is already being resolved`);
+
+    // The witness DID's whole log must verify, and its latest entry needs this DID's approval
+    const witnessProofs = [{ versionId: log[0].versionId, proof: [await createTestWitnessProof(witnessKey, log[0].versionId, witnessDID)] }];
+    await expect(resolveDIDFromLog(log, { verifier: testImplementation, fetcher, witnessProofs })).rejects.toThrow('is already being resolved');
+  });
+
+  test("Only count keys in the latest version of the witness DID", async () => {
+    const { log } = await createWitnessedDID([witnessDID]);
+    const witnessProofs = [{ versionId: log[0].versionId, proof: [await createTestWitnessProof(witnessKey, log[0].versionId, witnessDID)] }];
+    const resolveWith = (witnessLog: DIDLog) => resolveDIDFromLog(log, {
+      verifier: testImplementation,
+      fetcher: new MemoryLogFetcher({ 'https://witness.example/.well-known/did.jsonl': witnessLog.map(entry => JSON.stringify(entry)).join('\n') }),
+      witnessProofs
+    });
+
+    const rotated = (await updateDID({
+      log: witnessLog,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      verifier: testImplementation
+    })).log;
+    await expect(resolveWith(rotated)).rejects.toThrow(`Verification Method ${witnessVM} not found`);
+
+    const deactivated = (await deactivateDID({ log: witnessLog, signer: createTestSigner(authKey), verifier: testImplementation })).log;
+    await expect(resolveWith(deactivated)).rejects.toThrow(`${witnessDID} is deactivated`);
+
+    // A later entry that doesn't verify doesn't fall back to the version before it
+    const forged = JSON.parse(JSON.stringify(rotated));
+    forged[1].state.verificationMethod = witnessLog[0].state.verificationMethod;
+    await expect(resolveWith(forged)).rejects.toThrow(`Error resolving VM ${witnessVM}: Proof 0 failed verification`);
+  });
+});
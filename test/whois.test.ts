@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID } from "../src/method";
+import { createWhoisPresentation, fetchWhois, verifyWhoisPresentation } from "../src/whois";
+import { MemoryLogFetcher } from "../src/fetcher";
+import { InvalidProofError, NotFoundError, UnauthorizedKeyError } from "../src/errors";
+import type { DIDDoc, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, TestCryptoImplementation } from "./utils";
+
+// Set environment variables for tests
+process.env.IGNORE_ASSERTION_DOCUMENT_STATE_IS_VALID = 'true';
+
+describe("whois presentations", () => {
+  let authKey: VerificationMethod;
+  let assertionKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let assertionSigner: TestCryptoImplementation;
+  let did: string;
+  let doc: DIDDoc;
+  let fetcher: MemoryLogFetcher;
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod('authentication');
+    assertionKey = await generateTestVerificationMethod('assertionMethod');
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey, assertionKey],
+      verifier: testImplementation
+    });
+    did = created.did;
+    doc = created.doc;
+    assertionSigner = new TestCryptoImplementation({
+      verificationMethod: { ...assertionKey, id: `${did}#${assertionKey.publicKeyMultibase.slice(-8)}` },
+      useStaticId: false
+    });
+    fetcher = new MemoryLogFetcher({
+      'https://example.com/.well-known/did.jsonl': JSON.stringify(created.log[0]),
+      'https://example.com/.well-known/did-witness.json': '[]'
+    });
+  });
+
+  test("Create and verify a whois presentation", async () => {
+    const credential = { type: ['VerifiableCredential'], issuer: 'did:example:issuer', credentialSubject: { id: did } };
+    const presentation = await createWhoisPresentation({ did, signer: assertionSigner, credentials: [credential] });
+
+    expect(presentation.holder).toBe(did);
+    expect(presentation.verifiableCredential).toEqual([credential]);
+    expect(presentation.proof).toMatchObject({
+      cryptosuite: 'eddsa-jcs-2022',
+      proofPurpose: 'assertionMethod',
+      verificationMethod: assertionSigner.getVerificationMethodId()
+    });
+    expect(await verifyWhoisPresentation(presentation, doc, testImplementation)).toBe(true);
+  });
+
+  test("Only keys of the DID can sign the presentation", async () => {
+    await expect(createWhoisPresentation({ did, signer: createTestSigner(assertionKey) })).rejects.toThrow('must be signed by a verification method of');
+  });
+
+  test("Reject presentations signed by a key that isn't an assertionMethod", async () => {
+    const authSigner = new TestCryptoImplementation({
+      verificationMethod: { ...authKey, id: `${did}#${authKey.publicKeyMultibase.slice(-8)}` },
+      useStaticId: false
+    });
+    const presentation = await createWhoisPresentation({ did, signer: authSigner });
+    await expect(verifyWhoisPresentation(presentation, doc, testImplementation)).rejects.toBeInstanceOf(UnauthorizedKeyError);
+  });
+
+  test("Reject a tampered presentation", async () => {
+    const presentation = await createWhoisPresentation({ did, signer: assertionSigner });
+    const tampered = { ...presentation, verifiableCredential: [{ type: ['VerifiableCredential'] }] };
+    await expect(verifyWhoisPresentation(tampered, doc, testImplementation)).rejects.toBeInstanceOf(InvalidProofError);
+  });
+
+  test("Fetch the presentation from the #whois service", async () => {
+    const presentation = await createWhoisPresentation({ did, signer: assertionSigner });
+    fetcher.set('https://example.com/whois.vp', JSON.stringify(presentation));
+
+    const result = await fetchWhois(did, { verifier: testImplementation, fetcher });
+    expect(result.presentation).toEqual(presentation);
+    expect(result.doc.id).toBe(did);
+
+    fetcher.delete('https://example.com/whois.vp');
+    await expect(fetchWhois(did, { verifier: testImplementation, fetcher })).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
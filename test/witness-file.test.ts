@@ -0,0 +1,98 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createDID, updateDID } from "../src/method";
+import { mergeWitnessProofs, pruneWitnessProofs, validateWitnessProofs } from "../src/witness";
+import type { DIDLog, VerificationMethod } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, createTestWitnessProof, enforceAssertions, TestCryptoImplementation } from "./utils";
+
+describe("Witness proof files", () => {
+  let authKey: VerificationMethod;
+  let witness1: VerificationMethod;
+  let witness2: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let log: DIDLog;
+  let v1: string;
+  let v2: string;
+  enforceAssertions();
+
+  beforeAll(async () => {
+    authKey = await generateTestVerificationMethod();
+    witness1 = await generateTestVerificationMethod();
+    witness2 = await generateTestVerificationMethod();
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    const witness = {
+      threshold: 1,
+      witnesses: [{ id: `did:key:${witness1.publicKeyMultibase}` }, { id: `did:key:${witness2.publicKeyMultibase}` }]
+    };
+    const created = await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      witness,
+      verifier: testImplementation
+    });
+    v1 = created.log[0].versionId;
+    log = (await updateDID({
+      log: created.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      alsoKnownAs: ['https://example.com/v2'],
+      witness,
+      verifier: testImplementation,
+      witnessProofs: [{ versionId: v1, proof: [await createTestWitnessProof(witness1, v1)] }]
+    })).log;
+    v2 = log[1].versionId;
+  });
+
+  test("Merge files and replace older proofs from the same witness", async () => {
+    const older = await createTestWitnessProof(witness1, v1);
+    const newer = { ...await createTestWitnessProof(witness1, v1), created: '2030-01-01T00:00:00Z' };
+    const fromWitness2 = await createTestWitnessProof(witness2, v1);
+
+    const merged = mergeWitnessProofs(
+      [{ versionId: v1, proof: [older] }],
+      [{ versionId: v1, proof: [newer, fromWitness2] }, { versionId: v2, proof: [await createTestWitnessProof(witness2, v2)] }]
+    );
+    expect(merged.map(entry => entry.versionId)).toEqual([v1, v2]);
+    expect(merged[0].proof).toEqual([newer, fromWitness2]);
+  });
+
+  test("Prune proofs a later proof from the same witness approves", async () => {
+    const pruned = await pruneWitnessProofs(log, [
+      { versionId: v1, proof: [await createTestWitnessProof(witness1, v1), await createTestWitnessProof(witness2, v1)] },
+      { versionId: v2, proof: [await createTestWitnessProof(witness1, v2)] }
+    ], testImplementation);
+    expect(pruned.map(({ versionId, proof }) => [versionId, proof.map(p => p.verificationMethod.split('#')[0])])).toEqual([
+      [v1, [`did:key:${witness2.publicKeyMultibase}`]],
+      [v2, [`did:key:${witness1.publicKeyMultibase}`]]
+    ]);
+    expect((await validateWitnessProofs(log, pruned, testImplementation)).valid).toBe(true);
+
+    // An invalid later proof doesn't replace a valid earlier one
+    const forged = { ...await createTestWitnessProof(witness1, v1), created: '2030-01-01T00:00:00Z' };
+    const kept = await pruneWitnessProofs(log, [
+      { versionId: v1, proof: [await createTestWitnessProof(witness1, v1)] },
+      { versionId: v2, proof: [forged] }
+    ], testImplementation);
+    expect(kept.map(entry => entry.versionId)).toEqual([v1, v2]);
+  });
+
+  test("Validate the whole file against the log", async () => {
+    const valid = await validateWitnessProofs(log, [{ versionId: v2, proof: [await createTestWitnessProof(witness2, v2)] }], testImplementation);
+    expect(valid).toEqual({ valid: true, issues: [] });
+
+    const proof = await createTestWitnessProof(witness1, v1);
+    const report = await validateWitnessProofs(log, [
+      { versionId: v1, proof: [proof, proof] },
+      { versionId: v2, proof: [{ ...await createTestWitnessProof(witness2, v2), created: '2030-01-01T00:00:00Z' }] },
+      { versionId: '3-unknown', proof: [await createTestWitnessProof(witness1, '3-unknown')] }
+    ], testImplementation);
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(({ versionId, error }) => [versionId, error.split(':')[0]])).toEqual([
+      [v1, 'Duplicate proof from the same witness'],
+      [v2, 'Invalid witness proof'],
+      ['3-unknown', '3-unknown is not in the log'],
+      [v2, 'Witness threshold not met']
+    ]);
+  });
+});
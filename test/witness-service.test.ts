@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "path";
+import { $ } from "bun";
+import { createDID, updateDID } from "../src/method";
+import { verifyWitnessProof } from "../src/witness";
+import { FileSystemWitnessRecordStore, WitnessService, createWitnessHandler } from "../src/witness-service";
+import { InvalidDIDError, WitnessConflictError, WitnessError } from "../src/errors";
+import type { DIDLog, VerificationMethod, WitnessProofFileEntry } from "../src/interfaces";
+import { generateTestVerificationMethod, createTestSigner, enforceAssertions, TestCryptoImplementation } from "./utils";
+
+const RECORDS_DIR = join(process.cwd(), 'test', 'temp-witness-records');
+
+describe("Witness service", () => {
+  let authKey: VerificationMethod;
+  let witnessKey: VerificationMethod;
+  let testImplementation: TestCryptoImplementation;
+  let witnessId: string;
+  let log: DIDLog;
+  let witnessProofs: WitnessProofFileEntry[];
+  enforceAssertions();
+
+  const createService = (store?: FileSystemWitnessRecordStore) =>
+    new WitnessService({ signer: createTestSigner(witnessKey), verifier: testImplementation, store });
+
+  const propose = async (alsoKnownAs: string[], prior = log, proofs = witnessProofs) => (await updateDID({
+    log: prior,
+    signer: createTestSigner(authKey),
+    updateKeys: [authKey.publicKeyMultibase],
+    alsoKnownAs,
+    witness: log[0].parameters.witness,
+    verifier: testImplementation,
+    witnessProofs: proofs
+  })).log.at(-1)!;
+
+  beforeAll(async () => {
+    await $`mkdir -p ${RECORDS_DIR}`.quiet();
+    authKey = await generateTestVerificationMethod();
+    witnessKey = await generateTestVerificationMethod();
+    witnessId = `did:key:${witnessKey.publicKeyMultibase}`;
+    testImplementation = new TestCryptoImplementation({ verificationMethod: authKey });
+    log = (await createDID({
+      domain: 'example.com',
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      witness: { threshold: 1, witnesses: [{ id: witnessId }] },
+      verifier: testImplementation
+    })).log;
+    witnessProofs = [await createService().witness({ log: [], entry: log[0] })];
+  });
+
+  afterAll(async () => {
+    await $`rm -rf ${RECORDS_DIR}`.quiet();
+  });
+
+  test("Sign a valid entry that lists the witness", async () => {
+    const service = createService();
+    expect(service.id).toBe(witnessId);
+
+    const { versionId, proof } = await service.witness({ log: [], entry: log[0] });
+    expect(versionId).toBe(log[0].versionId);
+    expect(await verifyWitnessProof(versionId, proof[0], log[0].parameters.witness!, testImplementation)).toBe(witnessId);
+  });
+
+  test("Refuse invalid entries and DIDs it doesn't witness", async () => {
+    const tampered = { ...log[0], state: { ...log[0].state, alsoKnownAs: ['https://attacker.example'] } };
+    await expect(createService().witness({ log: [], entry: tampered })).rejects.toThrow(InvalidDIDError);
+
+    const other = await generateTestVerificationMethod();
+    const stranger = new WitnessService({ signer: createTestSigner(other), verifier: testImplementation });
+    await expect(stranger.witness({ log: [], entry: log[0] })).rejects.toThrow(WitnessError);
+  });
+
+  test("Never approve two entries at the same version", async () => {
+    const store = new FileSystemWitnessRecordStore(join(RECORDS_DIR, 'records.json'));
+    const first = await propose(['https://example.com/a']);
+    const fork = await propose(['https://example.com/b']);
+
+    await createService(store).witness({ log, entry: first, witnessProofs });
+    // Approving the same entry again is fine
+    await createService(store).witness({ log, entry: first, witnessProofs });
+    // The record survives a restart
+    await expect(createService(store).witness({ log, entry: fork, witnessProofs })).rejects.toThrow(WitnessConflictError);
+  });
+
+  test("Remember the entries approved along with a later one", async () => {
+    const store = new FileSystemWitnessRecordStore(join(RECORDS_DIR, 'chain.json'));
+    const v2 = await propose(['https://example.com/v2']);
+    const v2Proofs = [...witnessProofs, await createService().witness({ log, entry: v2, witnessProofs })];
+    const v3 = await propose(['https://example.com/v3'], [...log, v2], v2Proofs);
+
+    await createService(store).witness({ log: [...log, v2], entry: v3, witnessProofs: v2Proofs });
+    const fork = await propose(['https://example.com/fork']);
+    await expect(createService(store).witness({ log, entry: fork, witnessProofs })).rejects.toThrow(WitnessConflictError);
+  });
+
+  test("Refuse entries on top of entries the witnesses never approved", async () => {
+    const v2 = await propose(['https://example.com/v2']);
+    const v3 = await propose(['https://example.com/v3'], [...log, v2], [...witnessProofs, await createService().witness({ log, entry: v2, witnessProofs })]);
+
+    await expect(createService().witness({ log: [...log, v2], entry: v3, witnessProofs })).rejects.toThrow('failed the witnesses check');
+  });
+
+  test("Approve the entry that replaces the witness", async () => {
+    const successor = await generateTestVerificationMethod();
+    const handover = (await updateDID({
+      log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      witness: { threshold: 1, witnesses: [{ id: `did:key:${successor.publicKeyMultibase}` }] },
+      verifier: testImplementation,
+      witnessProofs
+    })).log.at(-1)!;
+
+    const { proof } = await createService().witness({ log, entry: handover, witnessProofs });
+    expect(proof[0].verificationMethod).toStartWith(witnessId);
+  });
+
+  test("Serve witness requests over HTTP", async () => {
+    const handler = createWitnessHandler(createService());
+    const post = (body: string) => handler(new Request('https://witness.example/', { method: 'POST', body }));
+
+    const approved = await post(JSON.stringify({ log: [], entry: log[0] }));
+    expect(approved.status).toBe(200);
+    expect((await approved.json()).versionId).toBe(log[0].versionId);
+
+    const update = await propose(['https://example.com/http']);
+    expect((await post(JSON.stringify({ log, entry: update, witnessProofs }))).status).toBe(200);
+
+    const conflict = await post(JSON.stringify({ log: [], entry: { ...log[0], versionId: `1-${log[0].parameters.scid}` } }));
+    expect(conflict.status).toBe(409);
+    expect(conflict.headers.get('Content-Type')).toBe('application/problem+json');
+
+    expect((await post('not json')).status).toBe(400);
+    expect((await post(JSON.stringify({ entry: log[0] }))).status).toBe(400);
+    expect((await handler(new Request('https://witness.example/'))).status).toBe(405);
+  });
+});
@@ -25,7 +25,7 @@ describe("Witness Implementation Tests", async () => {
     initialDID = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       witness: {
         threshold: 2,
@@ -74,7 +74,7 @@ describe("Witness Implementation Tests", async () => {
     const noWitnessDID = await createDID({
       domain: 'example.com',
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       verifier: testImplementation
     });
@@ -84,7 +84,7 @@ describe("Witness Implementation Tests", async () => {
     const updatedDID = await updateDID({
       log: noWitnessDID.log,
       signer: createTestSigner(authKey),
-      updateKeys: [newAuthKey.publicKeyMultibase!],
+      updateKeys: [newAuthKey.publicKeyMultibase],
       verificationMethods: [newAuthKey],
       witness: {
         threshold: 2,
@@ -136,7 +136,7 @@ describe("Witness Implementation Tests", async () => {
     const updatedDID = await updateDID({
       log: initialDID.log,
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       witness: {
         threshold: 1,
@@ -157,14 +157,71 @@ describe("Witness Implementation Tests", async () => {
       proof: [newProof]
     }];
     
-    const resolved = await resolveDIDFromLog(updatedDID.log, { 
+    // The first version still needs the approval of the witnesses in effect for it
+    await expect(resolveDIDFromLog(updatedDID.log, {
       verifier: testImplementation,
       witnessProofs: newWitnessProofs
+    })).rejects.toThrow(`Witness threshold not met for ${versionId}: got 0, need 2`);
+
+    // The outgoing witnesses must approve the entry that replaces them
+    await expect(resolveDIDFromLog(updatedDID.log, {
+      verifier: testImplementation,
+      witnessProofs: [...witnessProofs, ...newWitnessProofs]
+    })).rejects.toThrow(`Threshold of the previous witnesses not met for ${newVersionId}: got 0, need 2, waiting for did:key:${witness1.publicKeyMultibase}, did:key:${witness2.publicKeyMultibase}`);
+
+    // Their approval of the new version approves the first version too
+    const resolved = await resolveDIDFromLog(updatedDID.log, { 
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: newVersionId,
+        proof: [
+          newProof,
+          await createWitnessProof(witness1SignerFn, newVersionId),
+          await createWitnessProof(witness2SignerFn, newVersionId)
+        ]
+      }]
     });
     expect(resolved.meta?.witness?.witnesses).toHaveLength(1);
     expect(resolved.meta?.witness?.threshold).toBe(1);
   });
 
+  test("Approve earlier witnessed versions through a later version", async () => {
+    const updatedDID = await updateDID({
+      log: initialDID.log,
+      signer: createTestSigner(authKey),
+      updateKeys: [authKey.publicKeyMultibase],
+      verificationMethods: [authKey],
+      witness: initialDID.log[0].parameters.witness,
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: initialDID.log[0].versionId,
+        proof: [
+          await createWitnessProof(createWitnessSigner(witness1), initialDID.log[0].versionId),
+          await createWitnessProof(createWitnessSigner(witness2), initialDID.log[0].versionId)
+        ]
+      }]
+    });
+    const latestVersionId = updatedDID.log[1].versionId;
+
+    const resolved = await resolveDIDFromLog(updatedDID.log, {
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: latestVersionId,
+        proof: [
+          await createWitnessProof(createWitnessSigner(witness1), latestVersionId),
+          await createWitnessProof(createWitnessSigner(witness2), latestVersionId)
+        ]
+      }]
+    });
+    expect(resolved.meta.versionId).toBe(latestVersionId);
+
+    // Only one witness approved the latest version, so neither version meets the threshold
+    await expect(resolveDIDFromLog(updatedDID.log, {
+      verifier: testImplementation,
+      witnessProofs: [{ versionId: latestVersionId, proof: [await createWitnessProof(createWitnessSigner(witness1), latestVersionId)] }]
+    })).rejects.toThrow(`Witness threshold not met for ${initialDID.log[0].versionId}: got 1, need 2`);
+  });
+
   test("Disable witnessing by setting witness list to null", async () => {
     // Create proofs for initial version
     const versionId = initialDID.log[0].versionId;
@@ -179,14 +236,28 @@ describe("Witness Implementation Tests", async () => {
     const updatedDID = await updateDID({
       log: initialDID.log,
       signer: createTestSigner(authKey),
-      updateKeys: [authKey.publicKeyMultibase!],
+      updateKeys: [authKey.publicKeyMultibase],
       verificationMethods: [authKey],
       witness: null,
       verifier: testImplementation,
       witnessProofs
     });
 
-    const resolved = await resolveDIDFromLog(updatedDID.log, { verifier: testImplementation });
+    // An update key alone can't turn witnessing off
+    await expect(resolveDIDFromLog(updatedDID.log, { verifier: testImplementation, witnessProofs }))
+      .rejects.toThrow(`Threshold of the previous witnesses not met for ${updatedDID.log[1].versionId}: got 0, need 2`);
+
+    const disabledVersionId = updatedDID.log[1].versionId;
+    const resolved = await resolveDIDFromLog(updatedDID.log, {
+      verifier: testImplementation,
+      witnessProofs: [{
+        versionId: disabledVersionId,
+        proof: [
+          await createWitnessProof(witness1SignerFn, disabledVersionId),
+          await createWitnessProof(witness2SignerFn, disabledVersionId)
+        ]
+      }]
+    });
     expect(resolved.meta.witness).toBeEmpty();
   });
 
@@ -224,21 +295,14 @@ describe("Witness Implementation Tests", async () => {
 
   const createWitnessSigner = (verificationMethod: VerificationMethod) => {
     const signer = createTestSigner(verificationMethod);
-    return async (data: any) => {
-      const signResult = await signer.sign({
-        document: data,
-        proof: {
-          type: "DataIntegrityProof",
-          cryptosuite: "eddsa-jcs-2022",
-          verificationMethod: signer.getVerificationMethodId(),
-          created: new Date().toISOString(),
-          proofPurpose: "authentication"
-        }
-      });
-      
+    return async (data: any, options: any) => {
+      // Sign with the proof options createWitnessProof stores, including its created time
+      const proof = { ...options, verificationMethod: signer.getVerificationMethodId() };
+      const signResult = await signer.sign({ document: data, proof });
+
       return {
         proof: {
-          verificationMethod: signer.getVerificationMethodId(),
+          ...proof,
           proofValue: signResult.proofValue
         }
       };